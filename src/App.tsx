@@ -3,94 +3,195 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import { Cookie, Package, Calculator, Bolt, Droplets, HandCoins, RotateCcw } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Cookie, Package, Calculator, Droplets, HandCoins, RotateCcw, Plus, Trash2, ArrowUp, ArrowDown, Copy, TrendingDown, Flame, Tag } from "lucide-react";
 import logo from "@/assets/logo.png";
+import BoxesCard from "@/components/BoxesCard";
+import BreakEvenCard from "@/components/BreakEvenCard";
+import ChannelsCard from "@/components/ChannelsCard";
+import EmployeesEditor from "@/components/EmployeesEditor";
+import EnergySection from "@/components/EnergySection";
+import FixedCostsEditor from "@/components/FixedCostsEditor";
+import LaborTasksEditor from "@/components/LaborTasksEditor";
+import OffersDialog from "@/components/OffersDialog";
+import PackagingCard from "@/components/PackagingCard";
+import PackagingLinesEditor from "@/components/PackagingLinesEditor";
+import PackEditor from "@/components/PackEditor";
+import PriceHistoryDialog from "@/components/PriceHistoryDialog";
+import SensitivityCard from "@/components/SensitivityCard";
+import SuppliersCard from "@/components/SuppliersCard";
+import TierPricesCard from "@/components/TierPricesCard";
 
-/* ================= Types & helpers ================= */
-type Unit = "g" | "ml" | "pc";
-type Ingredient = {
-  name: string;
-  unit: Unit;
-  gramsPerUnit: number;   // conversion -> g (pc = poids moyen en g)
-  baseQty: number;        // quantité de base (en unité ci-dessus) — sert de référence
-  unitPrice: number;      // PRIX UNITAIRE STOCKÉ (€/g, €/ml ou €/pc)
-};
+import { defaultBoxes, sanitizeBoxes, type Box } from "@/lib/boxes";
+import { computeBreakEven } from "@/lib/breakEven";
+import { defaultChannels, sanitizeChannels, type SalesChannel } from "@/lib/channels";
+import { computeCost, cookieWeights, usesRecipe, type CostContext, type MaterialRow, type PrepIssue } from "@/lib/costing";
+import { defaultEnergy, sanitizeEnergy, type EnergySettings } from "@/lib/energy";
+import { defaultLaborTasks, sanitizeEmployee, sanitizeLaborTasks, type Employee, type LaborTask } from "@/lib/labor";
+import { defaultOverheads, sanitizeOverheads, type OverheadMode, type OverheadSettings } from "@/lib/overheads";
+import { euro, fixed, formatMinutes, frNum, newId, nz, toPosNumber } from "@/lib/format";
+import {
+  defaultPackagingComponents,
+  sanitizePackagingCatalogue,
+  type PackagingBom,
+  type PackagingComponent,
+  type PackagingUnit,
+} from "@/lib/packaging";
+import { packUnitPrice, packUnitsFor, withPackPrice, type Pack } from "@/lib/packs";
+import { trackPriceChange } from "@/lib/priceHistory";
+import {
+  PRICE_ROUNDING_LABELS,
+  pricingEquivalents,
+  type PriceBasis,
+  type PriceRounding,
+  type Pricing,
+  type PricingMethod,
+  type PricingMode,
+} from "@/lib/pricing";
+import { sanitizeSupplier, type Supplier } from "@/lib/suppliers";
+import { defaultTierGrid, sanitizeTierGrid, tierPrices, type TierGrid } from "@/lib/tiers";
+import {
+  MAX_LOSS_PCT,
+  PIECE_ROUNDINGS,
+  defaultGramsPerUnit,
+  defaultParams,
+  defaultRecipes,
+  effectiveParams,
+  sanitizeParams,
+  sanitizeRecipe,
+  type Ingredient,
+  type Params,
+  type PieceRounding,
+  type Recipe,
+  type WeightBasis,
+} from "@/lib/recipes";
+import {
+  UNITS,
+  formatMass,
+  formatQty,
+  fromDisplayPrice,
+  priceDisplayUnit,
+  toDisplayPrice,
+  unitKind,
+  unitLabel,
+  type Unit,
+} from "@/lib/units";
+import { VAT_CATEGORY_LABELS, VAT_EXEMPT_MENTION, defaultVat, sanitizeVat, type VatCategory, type VatSettings } from "@/lib/vat";
+
+// Valeur du sélecteur de source pour une matière première (les préparations utilisent l'id de recette)
+const RAW_SOURCE = "__raw";
 
-const isNum = (x: unknown) => Number.isFinite(x as number);
-const nz = (n: number, def = 0) => (isNum(n) ? (n as number) : def);
-const euro = (n: number) =>
-  isNum(n) ? (n as number).toLocaleString("fr-FR", { style: "currency", currency: "EUR" }) : "—";
-const fixed = (n: number, d = 0) => (isNum(n) ? (n as number).toFixed(d) : "0");
-const toPosNumber = (s: string, def = 0) => {
-  const n = Number((s || "").replace(",", "."));
-  return Number.isFinite(n) && n >= 0 ? n : def;
+const PREP_ISSUE_LABELS: Record<PrepIssue, string> = {
+  missing: "Préparation introuvable",
+  cycle: "Référence circulaire",
+  empty: "Préparation vide",
 };
 
-/* ============ Storage key (invalide l'ancien cache) ============ */
-const LS_KEY = "cookies-cost-calculator-v12";
-
-/* ============ Recette de base (PRIX & QUANTITÉS À JOUR) ============ */
-/* Interprétation :
-   - baseQty en g/ml/pc (recette de base)
-   - unitPrice pour g/ml = €/g (ex: 7,50 €/kg => 0,00750 €/g)
-   - unitPrice pour pc = €/pièce
-*/
-const lockedIngredients: Ingredient[] = [
-  { name: "Œuf",                 unit: "pc", gramsPerUnit: 55,  baseQty: 1,   unitPrice: 0.25 },     // 0,25 € / pièce
-  { name: "Beurre doux",         unit: "g",  gramsPerUnit: 1,   baseQty: 85,  unitPrice: 0.0075 },   // 7,50 €/kg
-  { name: "Sucre",               unit: "g",  gramsPerUnit: 1,   baseQty: 85,  unitPrice: 0.0015 },   // 1,50 €/kg
-  { name: "Farine",              unit: "g",  gramsPerUnit: 1,   baseQty: 150, unitPrice: 0.00085 },  // 0,85 €/kg
-  { name: "Pépites de chocolat", unit: "g",  gramsPerUnit: 1,   baseQty: 100, unitPrice: 0.02 },     // 20,00 €/kg
-  { name: "Sucre vanillé",       unit: "g",  gramsPerUnit: 1,   baseQty: 8,   unitPrice: 0.0105 },   // 10.50 €/kg
-  { name: "Levure chimique",     unit: "g",  gramsPerUnit: 1,   baseQty: 4,   unitPrice: 0.00845 },  // 8,45 €/kg
-  { name: "Sel fin",             unit: "g",  gramsPerUnit: 1,   baseQty: 4,   unitPrice: 0.001 },    // 1,00 €/kg
-];
-
-/* ============ Paramètres par défaut ============ */
-const defaultParams = {
-  cookieWeight: 100,     // g/cookie
-  cookiesWanted: 12,     // nb cookies
-  lossPctFixed: 3,       // pertes 3% (fixe, non affiché)
-  kwhPerBase: 1.2,
-  kwhPrice: 0.25,
-  litersPerBase: 0.02,
-  waterPricePerM3: 4.0,
-  laborMinPerBase: 45,
-  laborHourly: 0,
-  packCostPerCookie: 0.10,
-  overheadPct: 10,
-  marginPct: 50.7,
-  vatPct: 5.5,
+const ROUNDING_LABELS: Record<PieceRounding, string> = {
+  weighed: "Au poids (pesé)",
+  up: "Pièces entières (sup.)",
+  nearest: "Pièces entières (proche)",
 };
 
+/* ============ Storage key ============ */
+const LS_KEY = "cookies-cost-calculator-v13";
+// Ancienne clé (recette unique figée) : relue tant que la nouvelle n'existe pas, puis migrée
+const LEGACY_LS_KEY = "cookies-cost-calculator-v12";
+
 export default function App() {
-  const [ingredients, setIngredients] = useState<Ingredient[]>(lockedIngredients);
+  // Bibliothèque de recettes + recette sélectionnée
+  const [recipes, setRecipes] = useState<Recipe[]>(defaultRecipes);
+  const [recipeId, setRecipeId] = useState<string>(defaultRecipes[0].id);
+  const recipe = recipes.find((r) => r.id === recipeId) ?? recipes[0];
+  const ingredients = recipe.ingredients;
 
   // Poids & quantité (anti-NaN pendant la saisie)
-  const [cookieWeightStr, setCookieWeightStr] = useState<string>(String(defaultParams.cookieWeight));
+  const [cookieWeightStr, setCookieWeightStr] = useState<string>(String(recipe.cookieWeight));
   const [cookiesWantedStr, setCookiesWantedStr] = useState<string>(String(defaultParams.cookiesWanted));
 
-  // Autres paramètres
-  const [p, setP] = useState({ ...defaultParams });
+  // Autres paramètres (généraux) + portée de l'édition : tous / recette sélectionnée
+  const [p, setP] = useState<Params>({ ...defaultParams });
+  const [paramScope, setParamScope] = useState<"global" | "recipe">("global");
+  const ep = effectiveParams(p, recipe);
+
+  // Catalogue fournisseurs (offres saisies par ingrédient)
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+
+  // Catalogue des composants d'emballage (nomenclatures par recette et par coffret)
+  const [packaging, setPackaging] = useState<PackagingComponent[]>(defaultPackagingComponents);
+
+  // Source d'énergie du four et tarifs (communs à toutes les recettes)
+  const [energy, setEnergy] = useState<EnergySettings>(defaultEnergy);
+
+  // Tâches de production (durées × inducteurs), communes à toutes les recettes
+  const [laborTasks, setLaborTasks] = useState<LaborTask[]>(defaultLaborTasks);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+
+  // Frais fixes : pourcentage ou registre des charges mensuelles
+  const [overheads, setOverheads] = useState<OverheadSettings>(defaultOverheads);
+
+  // Régime et taux de TVA + canaux de vente (le premier sert de référence)
+  const [vat, setVat] = useState<VatSettings>(defaultVat);
+  const [channels, setChannels] = useState<SalesChannel[]>(defaultChannels);
 
-  /* ===== Load storage (recharge unitPrice + inputs + params) ===== */
+  // Grille de prix dégressifs par quantité (devis)
+  const [tierGrid, setTierGrid] = useState<TierGrid>(defaultTierGrid);
+
+  // Coffrets assortis (cookies de plusieurs recettes)
+  const [boxes, setBoxes] = useState<Box[]>(defaultBoxes);
+
+  /* ===== Load storage (recharge la bibliothèque + inputs + params) ===== */
   useEffect(() => {
     try {
-      const raw = localStorage.getItem(LS_KEY);
+      const raw = localStorage.getItem(LS_KEY) ?? localStorage.getItem(LEGACY_LS_KEY);
       if (raw) {
         const parsed = JSON.parse(raw);
-        if (parsed.ingredients && Array.isArray(parsed.ingredients) && parsed.ingredients.length === lockedIngredients.length) {
-          const merged = lockedIngredients.map((base, i) => {
-            const up = Number(parsed.ingredients[i]?.unitPrice);
-            return { ...base, unitPrice: Number.isFinite(up) && up > 0 ? up : base.unitPrice };
+        let loaded: Recipe[] = [];
+        if (Array.isArray(parsed.recipes)) {
+          loaded = parsed.recipes.map(sanitizeRecipe).filter(Boolean);
+        } else if (Array.isArray(parsed.ingredients)) {
+          // v12 : recette unique figée, seuls les prix étaient enregistrés (dans l'ordre des ingrédients de base)
+          const base = defaultRecipes[0].ingredients;
+          const ingredients = parsed.ingredients.length === base.length
+            ? base.map((ing, i) => {
+                const up = Number(parsed.ingredients[i]?.unitPrice);
+                return Number.isFinite(up) && up > 0 ? { ...ing, unitPrice: up } : ing;
+              })
+            : base;
+          // Sans nomenclature : l'emballage reprend l'ancien packCostPerCookie (composant « Emballage »)
+          const single = sanitizeRecipe({
+            ...defaultRecipes[0],
+            ingredients,
+            cookieWeight: parsed.p?.cookieWeight,
+            packaging: undefined,
           });
-          setIngredients(merged);
+          if (single) loaded = [single];
+        }
+        if (loaded.length > 0) {
+          const selected = loaded.find((r) => r.id === parsed.recipeId) ?? loaded[0];
+          setRecipes(loaded);
+          setRecipeId(selected.id);
+          setCookieWeightStr(String(selected.cookieWeight));
+        }
+        if (Array.isArray(parsed.suppliers)) {
+          setSuppliers(parsed.suppliers.map(sanitizeSupplier).filter(Boolean));
+        }
+        setPackaging(sanitizePackagingCatalogue(parsed.packaging, parsed.p?.packCostPerCookie));
+        setEnergy(sanitizeEnergy(parsed.energy, parsed.p?.kwhPrice));
+        setLaborTasks(sanitizeLaborTasks(parsed.laborTasks, parsed.p?.laborMinPerBase));
+        setOverheads(sanitizeOverheads(parsed.overheads));
+        setVat(sanitizeVat(parsed.vat, parsed.p?.vatPct));
+        setChannels(sanitizeChannels(parsed.channels));
+        setTierGrid(sanitizeTierGrid(parsed.tierGrid));
+        setBoxes(sanitizeBoxes(parsed.boxes));
+        if (Array.isArray(parsed.employees)) {
+          setEmployees(parsed.employees.map(sanitizeEmployee).filter(Boolean));
         }
         if (parsed.p && typeof parsed.p === "object") {
-          setCookieWeightStr(String(parsed.p.cookieWeight ?? defaultParams.cookieWeight));
           setCookiesWantedStr(String(parsed.p.cookiesWanted ?? defaultParams.cookiesWanted));
-          setP((prev) => ({ ...prev, ...parsed.p }));
+          setP((prev) => ({ ...prev, ...sanitizeParams(parsed.p) }));
         }
       }
     } catch {}
@@ -98,90 +199,470 @@ export default function App() {
 
   /* ===== Save storage ===== */
   useEffect(() => {
-    const lightIngs = ingredients.map(({ unitPrice }) => ({ unitPrice: nz(unitPrice, 0) }));
     const save = {
-      p: { ...p, cookieWeight: toPosNumber(cookieWeightStr, defaultParams.cookieWeight), cookiesWanted: toPosNumber(cookiesWantedStr, defaultParams.cookiesWanted) },
-      ingredients: lightIngs,
+      p: { ...p, cookiesWanted: toPosNumber(cookiesWantedStr, defaultParams.cookiesWanted) },
+      recipes,
+      recipeId,
+      suppliers,
+      packaging,
+      energy,
+      laborTasks,
+      employees,
+      overheads,
+      vat,
+      channels,
+      tierGrid,
+      boxes,
     };
     const t = setTimeout(() => localStorage.setItem(LS_KEY, JSON.stringify(save)), 120);
     return () => clearTimeout(t);
-  }, [ingredients, p, cookieWeightStr, cookiesWantedStr]);
+  }, [recipes, recipeId, suppliers, packaging, energy, laborTasks, employees, overheads, vat, channels, tierGrid, boxes, p, cookiesWantedStr]);
 
   const resetAll = () => {
-    setIngredients(lockedIngredients);
-    setCookieWeightStr(String(defaultParams.cookieWeight));
+    setRecipes(defaultRecipes);
+    setRecipeId(defaultRecipes[0].id);
+    setCookieWeightStr(String(defaultRecipes[0].cookieWeight));
     setCookiesWantedStr(String(defaultParams.cookiesWanted));
     setP({ ...defaultParams });
+    setParamScope("global");
+    setSuppliers([]);
+    setPackaging(defaultPackagingComponents);
+    setEnergy(defaultEnergy);
+    setLaborTasks(defaultLaborTasks);
+    setEmployees([]);
+    setOverheads(defaultOverheads);
+    setVat(defaultVat);
+    setChannels(defaultChannels);
+    setTierGrid(defaultTierGrid);
+    setBoxes(defaultBoxes);
     localStorage.removeItem(LS_KEY);
+    localStorage.removeItem(LEGACY_LS_KEY);
+  };
+
+  /* ===== Bibliothèque : sélection / duplication / suppression ===== */
+  const updateRecipe = (patch: Partial<Recipe>) => {
+    setRecipes(recipes.map((r) => (r.id === recipe.id ? { ...r, ...patch } : r)));
+  };
+
+  const selectRecipe = (id: string) => {
+    const next = recipes.find((r) => r.id === id);
+    if (!next) return;
+    setRecipeId(id);
+    setCookieWeightStr(String(next.cookieWeight));
+  };
+
+  const duplicateRecipe = () => {
+    const copy: Recipe = {
+      ...recipe,
+      id: newId(),
+      name: `${recipe.name} (copie)`,
+      ingredients: recipe.ingredients.map((ing) => ({ ...ing, id: newId() })),
+      params: { ...recipe.params },
+    };
+    setRecipes([...recipes, copy]);
+    setRecipeId(copy.id);
+  };
+
+  const removeRecipe = () => {
+    if (recipes.length <= 1) return;
+    const rest = recipes.filter((r) => r.id !== recipe.id);
+    setRecipes(rest);
+    setRecipeId(rest[0].id);
+    setCookieWeightStr(String(rest[0].cookieWeight));
+  };
+
+  // Toute modification de prix (saisie, conditionnement, densité…) est datée dans l'historique
+  const setIngredients = (next: Ingredient[]) => {
+    const prevById = new Map(ingredients.map((ing) => [ing.id, ing]));
+    updateRecipe({ ingredients: next.map((ing) => trackPriceChange(prevById.get(ing.id), ing)) });
+  };
+
+  const updateCookieWeight = (valueStr: string) => {
+    setCookieWeightStr(valueStr);
+    updateRecipe({ cookieWeight: toPosNumber(valueStr, recipe.cookieWeight) });
+  };
+
+  // Changer de référence (cru / cuit) convertit le poids saisi : le cookie reste le même
+  const updateWeightBasis = (weightBasis: WeightBasis) => {
+    if (weightBasis === recipe.weightBasis) return;
+    const { doughCookieWeight, bakedCookieWeight } = cookieWeights(recipe, ep);
+    const weight = Math.round((weightBasis === "baked" ? bakedCookieWeight : doughCookieWeight) * 10) / 10;
+    updateRecipe({ weightBasis, cookieWeight: weight });
+    setCookieWeightStr(String(weight));
+  };
+
+  // La perte à la cuisson dépend de la recette : saisie dans Production, elle surcharge le général
+  const updateBakeLoss = (valueStr: string) => {
+    const bakeLossPct = Math.min(toPosNumber(valueStr, ep.bakeLossPct), MAX_LOSS_PCT);
+    updateRecipe({ params: { ...recipe.params, bakeLossPct } });
+  };
+
+  // Mode de prix de la recette (marge visée ou prix imposé)
+  const pricing = recipe.pricing;
+  const updatePricing = (patch: Partial<Pricing>) => updateRecipe({ pricing: { ...pricing, ...patch } });
+  const updatePackaging = (patch: Partial<PackagingBom>) => updateRecipe({ packaging: { ...recipe.packaging, ...patch } });
+
+  // Écrit un paramètre dans les généraux ou dans les surcharges de la recette
+  const setParam = <K extends keyof Params>(key: K, value: Params[K]) => {
+    if (paramScope === "recipe") updateRecipe({ params: { ...recipe.params, [key]: value } });
+    else setP({ ...p, [key]: value });
   };
+  const isOverridden = (key: keyof Params) => recipe.params[key] !== undefined;
+  // Valeurs affichées par les champs : celles de la portée éditée (générales même si la recette les surcharge)
+  const sp = paramScope === "recipe" ? ep : p;
+  const overrideCount = Object.keys(recipe.params).length;
 
   /* ================== Nombres dérivés ================== */
-  const cookieWeight = toPosNumber(cookieWeightStr, defaultParams.cookieWeight);
   const cookiesWanted = toPosNumber(cookiesWantedStr, defaultParams.cookiesWanted);
 
-  // Masse totale (g) de la recette de base
-  const baseTotalGrams = useMemo(
-    () => nz(ingredients.reduce((sum, ing) => sum + nz(ing.baseQty) * nz(ing.gramsPerUnit), 0)),
-    [ingredients]
+  // Contexte de calcul (bibliothèque complète pour les préparations)
+  const ctx: CostContext = useMemo(
+    () => ({ recipes, params: p, suppliers, packaging, energy, laborTasks, employees, overheads, vat, channels }),
+    [recipes, p, suppliers, packaging, energy, laborTasks, employees, overheads, vat, channels]
   );
 
-  // Pâte totale visée (g)
-  const desiredTotalGrams = nz(cookieWeight * cookiesWanted);
-
-  // Facteur d’échelle avec 3% pertes (non affiché)
-  const scale = baseTotalGrams > 0
-    ? nz(desiredTotalGrams / baseTotalGrams) / (1 - nz(p.lossPctFixed) / 100)
-    : 0;
-
-  // Quantités calculées et coût matières
-  const mat = useMemo(() => {
-    let totalCost = 0;
-    const rows = ingredients.map((ing) => {
-      const neededQty = nz(ing.baseQty) * nz(scale);          // en unité d’entrée (g/ml/pc)
-      const neededGrams = neededQty * ing.gramsPerUnit;       // pour info pâte
-      const cost = neededQty * nz(ing.unitPrice, 0);          // unitPrice est €/g ou €/pc
-      totalCost += cost;
-      return { ...ing, neededQty, neededGrams, cost };
-    });
-    return { rows, totalCost: nz(totalCost) };
-  }, [ingredients, scale]);
+  // Chaîne de calcul complète pour la recette sélectionnée
+  const cost = useMemo(() => computeCost(recipe, ctx, cookiesWanted), [recipe, ctx, cookiesWanted]);
+  const {
+    desiredTotalGrams,
+    doughCookieWeight,
+    bakedCookieWeight,
+    declaredNetWeight,
+    mat,
+    totalDoughGrams,
+    actualPortionGrams,
+    plan,
+    energySplit,
+    energyTotal,
+    waterTotal,
+    labor,
+    laborTotal,
+    packTotal,
+    variableSubtotal,
+    overheadAmount,
+    totalCost,
+    unitCost,
+    priceHT,
+    priceTTC,
+    rawPriceTTC,
+    marginPerCookieHT,
+    marginPctActual,
+    marginTotalHT,
+    belowCost,
+    pricingError,
+    vatPct,
+    channelPrices,
+    channelMarginPct,
+  } = cost;
+  const equivalents = pricingEquivalents(unitCost, priceHT);
 
-  // Total pâte réellement nécessaire (somme des neededGrams)
-  const totalDoughGrams = useMemo(
-    () => mat.rows.reduce((s, r) => s + nz(r.neededGrams), 0),
-    [mat.rows]
+  // Point mort mensuel (charges du registre / marge sur coût variable)
+  const breakEven = useMemo(
+    () => computeBreakEven(overheads, variableSubtotal, cookiesWanted, priceHT),
+    [overheads, variableSubtotal, cookiesWanted, priceHT]
   );
 
-  // Énergie / Eau proportionnelles à l’échelle; MO fixe par session (modifiable si besoin)
-  const energyTotal = nz(p.kwhPerBase) * nz(p.kwhPrice) * nz(scale);
-  const waterTotal  = nz(p.litersPerBase) * (nz(p.waterPricePerM3) / 1000) * nz(scale);
-  const laborTotal  = (nz(p.laborMinPerBase) / 60) * nz(p.laborHourly);
-
-  // Emballage
-  const packTotal = nz(p.packCostPerCookie) * Math.max(0, cookiesWanted);
-
-  // Totaux
-  const variableSubtotal = nz(mat.totalCost + energyTotal + waterTotal + laborTotal + packTotal);
-  const overheadAmount   = nz(variableSubtotal * nz(p.overheadPct) / 100);
-  const totalCost        = nz(variableSubtotal + overheadAmount);
-  const unitCost         = cookiesWanted > 0 ? nz(totalCost / cookiesWanted) : 0;
-  const priceHT  = (1 - nz(p.marginPct) / 100) > 0 ? nz(unitCost / (1 - nz(p.marginPct) / 100)) : 0;
-const priceTTC = nz(priceHT * (1 + nz(p.vatPct) / 100));
-
-// --- NOUVEAU : marge nette (HT)
-const marginPerCookieHT = nz(priceHT - unitCost); // marge par cookie, hors TVA
-const marginPctActual = priceHT > 0 ? (marginPerCookieHT / priceHT) * 100 : 0; // % réel de marge sur HT (info)
-const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
-
-  // Met à jour unitPrice depuis l’éditeur (€/kg si g/ml, €/pièce si pc)
-  const updateUnitPriceFromDisplay = (i: number, valueStr: string, unit: Unit) => {
+  // Prix par palier de quantité (coût recalculé pour chaque quantité)
+  const tiers = useMemo(
+    () => tierPrices(tierGrid, recipe, ctx, priceHT, vatPct),
+    [tierGrid, recipe, ctx, priceHT, vatPct]
+  );
+
+  // Met à jour unitPrice depuis l’éditeur (€/kg, €/L ou €/pièce selon l'unité)
+  const updateUnitPriceFromDisplay = (i: number, valueStr: string) => {
     const v = toPosNumber(valueStr, 0);
     const next = [...ingredients];
-    next[i] = { ...next[i], unitPrice: unit === "pc" ? v : v / 1000 }; // g/ml: €/kg -> €/g
+    next[i] = { ...next[i], unitPrice: fromDisplayPrice(v, next[i]) }; // €/kg -> €/g, €/L -> €/g via densité
+    setIngredients(next);
+  };
+
+  /* ===== Édition de la recette (ajout / suppression / renommage / ordre) ===== */
+  const updateIngredient = (i: number, patch: Partial<Ingredient>) => {
+    const next = [...ingredients];
+    next[i] = withPackPrice({ ...next[i], ...patch }); // la densité / le poids d'une pièce changent le prix dérivé
+    setIngredients(next);
+  };
+
+  // Sans conditionnement, un prix au volume reste le €/L saisi : la densité ne change que le €/g stocké
+  const updateIngredientDensity = (i: number, density: number | undefined) => {
+    const ing = ingredients[i];
+    const keepDisplay = !ing.pack && unitKind(ing.unit) === "volume";
+    const next = { ...ing, density };
+    const convert = (unitPrice: number) => (keepDisplay ? fromDisplayPrice(toDisplayPrice(unitPrice, ing), next) : unitPrice);
+    const updated = [...ingredients];
+    updated[i] = withPackPrice({
+      ...next,
+      unitPrice: convert(ing.unitPrice),
+      ...(ing.priceHistory && { priceHistory: ing.priceHistory.map((h) => ({ ...h, unitPrice: convert(h.unitPrice) })) }),
+    });
+    setIngredients(updated);
+  };
+
+  // Changer d'unité garde le prix au gramme ; passer à/depuis pc convertit via le poids d'une pièce
+  const updateIngredientUnit = (i: number, unit: Unit) => {
+    const ing = ingredients[i];
+    if (ing.unit === unit) return;
+    const wasCount = unitKind(ing.unit) === "count";
+    const isCount = unitKind(unit) === "count";
+    const pieceGrams = isCount ? defaultGramsPerUnit(unit) : ing.gramsPerUnit;
+    let factor = 1;
+    if (!wasCount && isCount) factor = pieceGrams; // €/g -> €/pc
+    if (wasCount && !isCount) factor = pieceGrams > 0 ? 1 / pieceGrams : 0; // €/pc -> €/g
+    const unitPrice = ing.unitPrice * factor;
+    const { pack, offers, priceHistory, ...rest } = ing;
+    const keepPack = pack && packUnitsFor(unit).includes(pack.unit);
+    const keptOffers = (offers ?? []).filter((o) => packUnitsFor(unit).includes(o.pack.unit));
+    const next = [...ingredients];
+    next[i] = withPackPrice({
+      ...rest,
+      unit,
+      gramsPerUnit: isCount ? pieceGrams : 1,
+      unitPrice,
+      ...(keepPack && { pack }),
+      ...(keptOffers.length > 0 && { offers: keptOffers }),
+      ...(priceHistory && { priceHistory: priceHistory.map((h) => ({ ...h, unitPrice: h.unitPrice * factor })) }),
+    });
+    setIngredients(next);
+  };
+
+  // Conditionnement d'achat : unitPrice en est dérivé ; sans conditionnement on garde le dernier prix
+  const updateIngredientPack = (i: number, pack: Pack | undefined) => {
+    const { pack: _pack, ...rest } = ingredients[i];
+    const next = [...ingredients];
+    next[i] = pack ? { ...rest, pack, unitPrice: packUnitPrice(pack, rest) } : rest;
+    setIngredients(next);
+  };
+
+  // Matière première (prix saisi) ou préparation (recette de la bibliothèque, en g)
+  const updateIngredientSource = (i: number, source: string) => {
+    const ing = ingredients[i];
+    if (source === RAW_SOURCE) {
+      if (ing.recipeId === undefined) return;
+      const { recipeId: _prep, ...raw } = ing;
+      const next = [...ingredients];
+      next[i] = raw;
+      setIngredients(next);
+      return;
+    }
+    const prep = recipes.find((r) => r.id === source);
+    if (!prep) return;
+    const { pack: _pack, density: _density, offers: _offers, supplierChoice: _choice, priceHistory: _history, ...rest } = ing;
+    const next = [...ingredients];
+    next[i] = { ...rest, recipeId: prep.id, name: prep.name, unit: "g", gramsPerUnit: 1 };
+    setIngredients(next);
+  };
+
+  // Préparations utilisables ici : toute recette qui n'utilise pas déjà la recette courante
+  const availablePreparations = recipes.filter((r) => !usesRecipe(r.id, recipe.id, recipes));
+
+  const addIngredient = () => {
+    setIngredients([
+      ...ingredients,
+      { id: newId(), name: "Nouvel ingrédient", unit: "g", gramsPerUnit: 1, baseQty: 0, unitPrice: 0 },
+    ]);
+  };
+
+  const removeIngredient = (i: number) => {
+    setIngredients(ingredients.filter((_, j) => j !== i));
+  };
+
+  const moveIngredient = (i: number, delta: -1 | 1) => {
+    const j = i + delta;
+    if (j < 0 || j >= ingredients.length) return;
+    const next = [...ingredients];
+    [next[i], next[j]] = [next[j], next[i]];
     setIngredients(next);
   };
 
   /* ================== UI ================== */
+  // Source (matière / préparation) + unité + conversion en g (densité g/ml pour les volumes, g/pièce pour pc)
+  const renderUnitEditor = (row: Ingredient, i: number) => (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={row.recipeId ?? RAW_SOURCE} onValueChange={(v) => updateIngredientSource(i, v)}>
+        <SelectTrigger className="h-9 w-36" aria-label="Source">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={RAW_SOURCE}>Matière première</SelectItem>
+          {/* garde l'option courante même si elle est devenue invalide (cycle) */}
+          {recipes
+            .filter((r) => r.id === row.recipeId || availablePreparations.includes(r))
+            .map((r) => (
+              <SelectItem key={r.id} value={r.id}>Prépa : {r.name || "Sans nom"}</SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+      {row.recipeId === undefined && (
+        <Select value={row.unit} onValueChange={(u) => updateIngredientUnit(i, u as Unit)}>
+          <SelectTrigger className="h-9 w-28" aria-label="Unité">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {UNITS.map((u) => (
+              <SelectItem key={u} value={u}>{unitLabel(u)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {unitKind(row.unit) === "count" && (
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            step="0.1"
+            min={0}
+            value={row.gramsPerUnit}
+            onChange={(e) => updateIngredient(i, { gramsPerUnit: toPosNumber(e.target.value, row.gramsPerUnit) })}
+            className="h-9 w-20 text-right font-mono"
+            aria-label="Poids d'une pièce (g)"
+          />
+          <span className="whitespace-nowrap text-xs text-muted-foreground">g/pc</span>
+        </div>
+      )}
+      {unitKind(row.unit) === "count" && row.recipeId === undefined && (
+        <Select
+          value={row.rounding ?? "weighed"}
+          onValueChange={(v) => updateIngredient(i, { rounding: v === "weighed" ? undefined : (v as PieceRounding) })}
+        >
+          <SelectTrigger className="h-9 w-36" aria-label="Arrondi des pièces">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PIECE_ROUNDINGS.map((r) => (
+              <SelectItem key={r} value={r}>{ROUNDING_LABELS[r]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <div className="flex items-center gap-1">
+        <Input
+          type="number"
+          step="1"
+          min={0}
+          max={MAX_LOSS_PCT}
+          value={row.lossPct ?? 0}
+          onChange={(e) => updateIngredient(i, { lossPct: Math.min(toPosNumber(e.target.value, 0), MAX_LOSS_PCT) || undefined })}
+          className="h-9 w-16 text-right font-mono"
+          aria-label="Perte de manipulation (%)"
+        />
+        <span className="whitespace-nowrap text-xs text-muted-foreground">% perte</span>
+      </div>
+      {row.recipeId === undefined && (unitKind(row.unit) === "volume" || (row.pack && unitKind(row.pack.unit) === "volume" && unitKind(row.unit) === "mass")) && (
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            step="0.01"
+            min={0}
+            value={row.density ?? 1}
+            onChange={(e) => updateIngredientDensity(i, toPosNumber(e.target.value, row.density ?? 1) || undefined)}
+            className="h-9 w-20 text-right font-mono"
+            aria-label="Densité (g/ml)"
+          />
+          <span className="whitespace-nowrap text-xs text-muted-foreground">g/ml</span>
+        </div>
+      )}
+    </div>
+  );
+
+  // Éditeur : €/kg (g/ml) ou €/pièce (pc) ; prix dérivé (lecture seule) pour une préparation
+  const renderPriceEditor = (row: MaterialRow, i: number, widthClass: string) => {
+    if (row.recipeId !== undefined) {
+      return (
+        <div className="flex h-9 items-center justify-end gap-2 text-sm">
+          {row.prepIssue ? (
+            <span className="text-destructive">{PREP_ISSUE_LABELS[row.prepIssue]}</span>
+          ) : (
+            <>
+              <span className="font-mono">{fixed(row.effectiveUnitPrice * 1000, 2)}</span>
+              <span>€/kg</span>
+              <span className="text-xs text-muted-foreground">(prépa)</span>
+            </>
+          )}
+        </div>
+      );
+    }
+    const editorSuffix = priceDisplayUnit(row);
+    // Offre fournisseur retenue, sinon prix saisi (afficher €/kg, €/L ou €/pièce)
+    const editorValue = toDisplayPrice(row.selectedOffer ? row.effectiveUnitPrice : row.unitPrice, row);
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-end gap-2">
+          {row.selectedOffer || row.pack ? (
+            // Prix dérivé de l'offre ou du conditionnement
+            <span className={`${widthClass} text-right font-mono text-sm`}>{fixed(editorValue, unitKind(row.unit) === "count" ? 3 : 2)}</span>
+          ) : (
+            <Input
+              type="text"
+              inputMode="decimal"
+              value={String(editorValue)}
+              onChange={(e) => updateUnitPriceFromDisplay(i, e.target.value)}
+              className={`h-9 ${widthClass} text-right font-mono`}
+              placeholder={editorSuffix}
+            />
+          )}
+          <span className="text-sm">{editorSuffix}</span>
+        </div>
+        <div className="flex flex-wrap justify-end gap-x-3">
+          {!row.selectedOffer && (
+            <PackEditor pack={row.pack} unit={row.unit} onChange={(pack) => updateIngredientPack(i, pack)} />
+          )}
+          <OffersDialog ingredient={ingredients[i]} suppliers={suppliers} onChange={(patch) => updateIngredient(i, patch)} />
+          <PriceHistoryDialog
+            ingredient={ingredients[i]}
+            recipe={recipe}
+            ctx={ctx}
+            cookiesWanted={cookiesWanted}
+            onChange={(priceHistory) => updateIngredient(i, { priceHistory })}
+          />
+        </div>
+        {row.belowMinOrder && row.selectedOffer && (
+          <p className="text-right text-xs text-destructive">
+            Sous la commande minimale de {row.selectedOffer.supplier.name || "ce fournisseur"} ({frNum(nz(row.selectedOffer.offer.minPacks), 0)} cond.)
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  // Quantité pratique : pièces entières à utiliser, ou masse à peser pour un ingrédient compté
+  const practicalQty = (row: MaterialRow) => {
+    if (unitKind(row.unit) !== "count" || row.recipeId !== undefined) return formatQty(row.neededQty, row);
+    if (!row.rounding) return `${formatMass(row.neededGrams)} à peser (≈ ${frNum(row.neededQty)} ${unitLabel(row.unit)})`;
+    return formatQty(row.usedQty, row);
+  };
+
+  // Pièces entamées restantes, sinon quantité à sortir (pertes de manipulation)
+  const qtyNote = (row: MaterialRow) => {
+    if (row.leftoverQty > 0.005) return `Reste ${frNum(row.leftoverQty)} ${unitLabel(row.unit)} (${euro(row.leftoverCost)})`;
+    if (!row.rounding && row.usedQty > row.neededQty) return `À sortir : ${formatQty(row.usedQty, row)}`;
+    return null;
+  };
+
+  // Repère des paramètres surchargés par la recette sélectionnée
+  // (en portée générale, la valeur de la recette est rappelée : c'est elle qui s'applique au calcul)
+  const overrideMark = (key: keyof Params) => {
+    if (!isOverridden(key)) return null;
+    return (
+      <span className="ml-1 text-xs font-normal text-primary">
+        {paramScope === "recipe" ? "(recette)" : `(recette : ${frNum(ep[key])})`}
+      </span>
+    );
+  };
+
+  // Monter / descendre / supprimer une ligne
+  const renderRowActions = (i: number) => (
+    <div className="flex items-center justify-end gap-1">
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveIngredient(i, -1)} disabled={i === 0} aria-label="Monter">
+        <ArrowUp className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveIngredient(i, 1)} disabled={i === ingredients.length - 1} aria-label="Descendre">
+        <ArrowDown className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => removeIngredient(i)} aria-label="Supprimer">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -189,14 +670,39 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
         <div className="container mx-auto flex h-16 items-center justify-between px-4 lg:px-8">
           <div className="flex items-center gap-3">
             <img src={logo} alt="Cookie Calculator" className="h-10 w-10" />
-            <h1 className="text-xl font-bold tracking-tight lg:text-2xl">
+            <h1 className="hidden text-xl font-bold tracking-tight md:block lg:text-2xl">
               Calculateur de coût — Cookies
             </h1>
           </div>
-          <Button onClick={resetAll} variant="outline" size="sm" className="gap-2">
-            <RotateCcw className="h-4 w-4" />
-            <span className="hidden sm:inline">Réinitialiser</span>
-          </Button>
+          <div className="flex items-center gap-2">
+            <Select value={recipe.id} onValueChange={selectRecipe}>
+              <SelectTrigger className="h-9 w-40 sm:w-56" aria-label="Recette">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {recipes.map((r) => (
+                  <SelectItem key={r.id} value={r.id}>{r.name || "Sans nom"}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={duplicateRecipe} variant="outline" size="icon" className="h-9 w-9" aria-label="Dupliquer la recette">
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={removeRecipe}
+              variant="outline"
+              size="icon"
+              className="h-9 w-9"
+              disabled={recipes.length <= 1}
+              aria-label="Supprimer la recette"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+            <Button onClick={resetAll} variant="outline" size="sm" className="gap-2">
+              <RotateCcw className="h-4 w-4" />
+              <span className="hidden sm:inline">Réinitialiser</span>
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -214,15 +720,50 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="recipe-name">Nom de la recette</Label>
+                  <Input
+                    id="recipe-name"
+                    value={recipe.name}
+                    onChange={(e) => updateRecipe({ name: e.target.value })}
+                  />
+                </div>
                 <div className="grid gap-4 sm:grid-cols-2">
                   <div className="space-y-2">
-                    <Label htmlFor="cookie-weight">Poids d'un cookie (g)</Label>
+                    <Label htmlFor="weight-basis">Poids saisi</Label>
+                    <Select value={recipe.weightBasis} onValueChange={(v) => updateWeightBasis(v as WeightBasis)}>
+                      <SelectTrigger id="weight-basis">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="dough">Pâte crue (portion)</SelectItem>
+                        <SelectItem value="baked">Cookie cuit</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="bake-loss-recipe">Perte à la cuisson (%){overrideMark("bakeLossPct")}</Label>
+                    <Input
+                      id="bake-loss-recipe"
+                      type="number"
+                      step="0.5"
+                      min={0}
+                      max={MAX_LOSS_PCT}
+                      value={ep.bakeLossPct}
+                      onChange={(e) => updateBakeLoss(e.target.value)}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="cookie-weight">
+                      Poids d'un cookie {recipe.weightBasis === "baked" ? "cuit" : "cru"} (g)
+                    </Label>
                     <Input
                       id="cookie-weight"
                       type="text"
                       inputMode="decimal"
                       value={cookieWeightStr}
-                      onChange={(e) => setCookieWeightStr(e.target.value)}
+                      onChange={(e) => updateCookieWeight(e.target.value)}
                       className="font-mono"
                     />
                   </div>
@@ -240,20 +781,47 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
                 </div>
                 <div className="rounded-lg bg-muted px-4 py-3">
                   <p className="text-sm text-muted-foreground">
-                    Total pâte visée : <span className="font-bold text-foreground">{fixed(desiredTotalGrams, 0)} g</span>
-                    {"  "}• Calculée (après pertes 3%) : <span className="font-bold text-foreground">{fixed(totalDoughGrams, 0)} g</span>
+                    Portion de pâte à bouler : <span className="font-bold text-foreground">{fixed(doughCookieWeight, 0)} g</span>
+                    {"  "}• Total pâte visée : <span className="font-bold text-foreground">{fixed(desiredTotalGrams, 0)} g</span>
+                    {"  "}• Calculée (après perte pâte {frNum(ep.doughLossPct)} %) : <span className="font-bold text-foreground">{fixed(totalDoughGrams, 0)} g</span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Poids cuit : <span className="font-bold text-foreground">≈ {fixed(bakedCookieWeight, 0)} g</span> / cookie
+                    {"  "}(perte cuisson {frNum(ep.bakeLossPct)} %)
+                    {"  "}• Poids net déclaré : <span className="font-bold text-foreground">{declaredNetWeight} g</span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Plan : <span className="font-bold text-foreground">{plan.mixerBatches} pétrin{plan.mixerBatches > 1 ? "s" : ""}</span>
+                    {"  "}• <span className="font-bold text-foreground">{plan.trays} plaque{plan.trays > 1 ? "s" : ""}</span> en{" "}
+                    <span className="font-bold text-foreground">{plan.ovenLoads} fournée{plan.ovenLoads > 1 ? "s" : ""}</span>
+                    {"  "}• Four : <span className="font-bold text-foreground">{frNum(plan.ovenMinutes)} min</span> ({frNum(plan.ovenKwh)} kWh)
                   </p>
+                  {Math.abs(actualPortionGrams - doughCookieWeight) >= 0.5 && (
+                    <p className="text-sm text-muted-foreground">
+                      Pièces arrondies : portion réelle <span className="font-bold text-foreground">{fixed(actualPortionGrams, 0)} g</span> de pâte
+                    </p>
+                  )}
+                  {(mat.handlingLossCost > 0 || mat.leftoverCost > 0) && (
+                    <p className="text-sm text-muted-foreground">
+                      Pertes de manipulation : <span className="font-bold text-foreground">{euro(mat.handlingLossCost)}</span>
+                      {mat.leftoverCost > 0 && <>{"  "}• Pièces entamées : <span className="font-bold text-foreground">{euro(mat.leftoverCost)}</span></>}
+                    </p>
+                  )}
                 </div>
               </CardContent>
             </Card>
 
-            {/* Ingrédients — Quantité calculée + éditeur du prix (€/kg|€/pièce) + coût/recette */}
+            {/* Ingrédients — recette éditable + quantité calculée + éditeur du prix (€/kg|€/pièce) + coût/recette */}
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
                 <CardTitle className="flex items-center gap-2">
                   <Package className="h-5 w-5 text-primary" />
                   Ingrédients
                 </CardTitle>
+                <Button onClick={addIngredient} variant="outline" size="sm" className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  <span className="hidden sm:inline">Ajouter</span>
+                </Button>
               </CardHeader>
               <CardContent>
                 {/* Desktop */}
@@ -262,48 +830,55 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
                     <thead>
                       <tr className="border-b border-border text-xs font-semibold uppercase tracking-wide text-muted-foreground">
                         <th className="pb-3 text-left">Ingrédient</th>
+                        <th className="pb-3 text-left">Base</th>
                         <th className="pb-3 text-left">Quantité</th>
                         <th className="pb-3 text-right">Prix</th>
+                        <th className="pb-3" />
                       </tr>
                     </thead>
                     <tbody>
                       {mat.rows.map((row, i) => {
-                        const unitLabel = row.unit === "pc" ? "pc" : row.unit;
-                        const qtyDisplay =
-                          row.unit === "pc"
-                            ? `${fixed(row.neededQty, 2)} pc (≈ ${fixed(row.neededGrams, 0)} g)`
-                            : `${fixed(row.neededQty, 2)} ${unitLabel}`;
-
-                        const editorSuffix = row.unit === "pc" ? "€/pièce" : "€/kg";
-                        const editorValue = row.unit === "pc" ? row.unitPrice : row.unitPrice * 1000; // afficher €/kg
+                        const qtyDisplay = practicalQty(row);
+                        const qtyExtra = qtyNote(row);
 
                         return (
-                          <tr key={i} className="border-b border-border/50 align-top last:border-0">
-                            <td className="py-3">
-                              <Input value={row.name} readOnly className="h-9 border-0 bg-transparent px-0 font-medium" />
+                          <tr key={row.id} className="border-b border-border/50 align-top last:border-0">
+                            <td className="space-y-2 py-3 pr-2">
+                              <Input
+                                value={row.name}
+                                onChange={(e) => updateIngredient(i, { name: e.target.value })}
+                                className="h-9 font-medium"
+                                aria-label="Nom de l'ingrédient"
+                              />
+                              {renderUnitEditor(row, i)}
                             </td>
-                            <td className="py-3">
-                              <div className="text-sm font-medium">{qtyDisplay}</div>
-                            </td>
-                            <td className="py-3">
-                              {/* Éditeur : €/kg (g/ml) ou €/pièce (pc) */}
-                              <div className="flex items-center justify-end gap-2">
+                            <td className="py-3 pr-2">
+                              <div className="flex items-center gap-1">
                                 <Input
-                                  type="text"
-                                  inputMode="decimal"
-                                  value={String(editorValue)}
-                                  onChange={(e) => updateUnitPriceFromDisplay(i, e.target.value, row.unit)}
-                                  className="h-9 w-32 text-right font-mono"
-                                  placeholder={editorSuffix}
+                                  type="number"
+                                  step="1"
+                                  min={0}
+                                  value={row.baseQty}
+                                  onChange={(e) => updateIngredient(i, { baseQty: toPosNumber(e.target.value, row.baseQty) })}
+                                  className="h-9 w-20 text-right font-mono"
+                                  aria-label="Quantité de base"
                                 />
-                                <span className="text-sm">{editorSuffix}</span>
+                                <span className="whitespace-nowrap text-sm">{unitLabel(row.unit)}</span>
                               </div>
+                            </td>
+                            <td className="py-3">
+                              <div className="pt-2 text-sm font-medium">{qtyDisplay}</div>
+                              {qtyExtra && <div className="text-xs text-muted-foreground">{qtyExtra}</div>}
+                            </td>
+                            <td className="py-3">
+                              {renderPriceEditor(row, i, "w-24")}
 
                               {/* Coût pour cette recette */}
                               <div className="mt-1 text-right text-xs text-muted-foreground">
                                 Coût / recette : <span className="font-medium">{euro(row.cost)}</span>
                               </div>
                             </td>
+                            <td className="py-3 pl-2">{renderRowActions(i)}</td>
                           </tr>
                         );
                       })}
@@ -314,38 +889,48 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
                 {/* Mobile */}
                 <div className="space-y-4 lg:hidden">
                   {mat.rows.map((row, i) => {
-                    const unitLabel = row.unit === "pc" ? "pc" : row.unit;
-                    const qtyDisplay =
-                      row.unit === "pc"
-                        ? `${fixed(row.neededQty, 2)} pc (≈ ${fixed(row.neededGrams, 0)} g)`
-                        : `${fixed(row.neededQty, 2)} ${unitLabel}`;
-
-                    const editorSuffix = row.unit === "pc" ? "€/pièce" : "€/kg";
-                    const editorValue = row.unit === "pc" ? row.unitPrice : row.unitPrice * 1000;
+                    const qtyDisplay = practicalQty(row);
+                    const qtyExtra = qtyNote(row);
 
                     return (
-                      <div key={i} className="space-y-3 rounded-lg border border-border bg-card p-4">
-                        <div className="font-semibold">{row.name}</div>
+                      <div key={row.id} className="space-y-3 rounded-lg border border-border bg-card p-4">
+                        <div className="flex items-center gap-2">
+                          <Input
+                            value={row.name}
+                            onChange={(e) => updateIngredient(i, { name: e.target.value })}
+                            className="h-9 font-semibold"
+                            aria-label="Nom de l'ingrédient"
+                          />
+                          {renderRowActions(i)}
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-2">
+                          {renderUnitEditor(row, i)}
+                          <div className="flex items-center gap-1">
+                            <span className="text-sm text-muted-foreground">Base :</span>
+                            <Input
+                              type="number"
+                              step="1"
+                              min={0}
+                              value={row.baseQty}
+                              onChange={(e) => updateIngredient(i, { baseQty: toPosNumber(e.target.value, row.baseQty) })}
+                              className="h-9 w-20 text-right font-mono"
+                              aria-label="Quantité de base"
+                            />
+                            <span className="whitespace-nowrap text-sm">{unitLabel(row.unit)}</span>
+                          </div>
+                        </div>
 
                         <div className="text-sm">
                           <span className="text-muted-foreground">Quantité : </span>
                           <span className="font-medium">{qtyDisplay}</span>
+                          {qtyExtra && <span className="text-xs text-muted-foreground"> ({qtyExtra})</span>}
                         </div>
 
                         <Separator />
 
                         {/* Éditeur prix */}
-                        <div className="flex items-center justify-end gap-2">
-                          <Input
-                            type="text"
-                            inputMode="decimal"
-                            value={String(editorValue)}
-                            onChange={(e) => updateUnitPriceFromDisplay(i, e.target.value, row.unit)}
-                            className="h-9 w-32 text-right font-mono"
-                            placeholder={editorSuffix}
-                          />
-                          <span className="text-sm">{editorSuffix}</span>
-                        </div>
+                        {renderPriceEditor(row, i, "w-32")}
 
                         {/* Coût / recette */}
                         <div className="pt-1 text-right text-xs text-muted-foreground">
@@ -355,9 +940,27 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
                     );
                   })}
                 </div>
+
+                {ingredients.length === 0 && (
+                  <p className="py-6 text-center text-sm text-muted-foreground">
+                    Aucun ingrédient — cliquez sur « Ajouter » pour composer la recette.
+                  </p>
+                )}
               </CardContent>
             </Card>
 
+            {/* Fournisseurs */}
+            <SuppliersCard suppliers={suppliers} onChange={setSuppliers} />
+
+            {/* Emballages */}
+            <PackagingCard components={packaging} onChange={setPackaging} />
+
+            {/* Canaux de vente & TVA */}
+            <ChannelsCard channels={channels} vat={vat} onChannelsChange={setChannels} onVatChange={setVat} />
+
+            {/* Coffrets */}
+            <BoxesCard boxes={boxes} ctx={ctx} onChange={setBoxes} />
+
             {/* Paramètres */}
             <Card>
               <CardHeader>
@@ -367,106 +970,142 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-6">
-                {/* Énergie */}
+                {/* Portée : paramètres généraux ou propres à la recette sélectionnée */}
+                <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg bg-muted px-4 py-3">
+                  <div className="flex items-center gap-3">
+                    <Switch
+                      id="param-scope"
+                      checked={paramScope === "recipe"}
+                      onCheckedChange={(on) => setParamScope(on ? "recipe" : "global")}
+                    />
+                    <Label htmlFor="param-scope" className="text-sm">
+                      Propres à « {recipe.name || "Sans nom"} »
+                    </Label>
+                  </div>
+                  {overrideCount > 0 && (
+                    <Button variant="ghost" size="sm" onClick={() => updateRecipe({ params: {} })}>
+                      Revenir aux paramètres généraux ({overrideCount})
+                    </Button>
+                  )}
+                </div>
+
+                {/* Pertes */}
                 <div className="space-y-3">
                   <div className="flex items-center gap-2 text-sm font-semibold">
-                    <Bolt className="h-4 w-4 text-primary" />
-                    <span>Énergie</span>
+                    <TrendingDown className="h-4 w-4 text-primary" />
+                    <span>Pertes</span>
                   </div>
                   <div className="grid gap-4 sm:grid-cols-2">
                     <div className="space-y-2">
-                      <Label htmlFor="kwh-per-base">kWh (proportionnel)</Label>
+                      <Label htmlFor="dough-loss">Perte de pâte (%){overrideMark("doughLossPct")}</Label>
                       <Input
-                        id="kwh-per-base"
+                        id="dough-loss"
                         type="number"
-                        step="0.1"
+                        step="0.5"
                         min={0}
-                        value={p.kwhPerBase}
-                        onChange={(e) => setP({ ...p, kwhPerBase: toPosNumber(e.target.value, p.kwhPerBase) })}
+                        max={MAX_LOSS_PCT}
+                        value={sp.doughLossPct}
+                        onChange={(e) => setParam("doughLossPct", Math.min(toPosNumber(e.target.value, sp.doughLossPct), MAX_LOSS_PCT))}
                         className="font-mono"
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="kwh-price">Prix kWh (€)</Label>
+                      <Label htmlFor="bake-loss">Perte à la cuisson (%){overrideMark("bakeLossPct")}</Label>
                       <Input
-                        id="kwh-price"
+                        id="bake-loss"
                         type="number"
-                        step="0.01"
+                        step="0.5"
                         min={0}
-                        value={p.kwhPrice}
-                        onChange={(e) => setP({ ...p, kwhPrice: toPosNumber(e.target.value, p.kwhPrice) })}
+                        max={MAX_LOSS_PCT}
+                        value={sp.bakeLossPct}
+                        onChange={(e) => setParam("bakeLossPct", Math.min(toPosNumber(e.target.value, sp.bakeLossPct), MAX_LOSS_PCT))}
                         className="font-mono"
                       />
                     </div>
                   </div>
+                  <p className="text-xs text-muted-foreground">
+                    Les pertes de manipulation (coquilles, restes au bol…) se règlent ingrédient par ingrédient.
+                  </p>
                 </div>
 
                 <Separator />
 
-                {/* Eau */}
+                {/* Four & pétrin */}
                 <div className="space-y-3">
                   <div className="flex items-center gap-2 text-sm font-semibold">
-                    <Droplets className="h-4 w-4 text-primary" />
-                    <span>Eau</span>
+                    <Flame className="h-4 w-4 text-primary" />
+                    <span>Four &amp; pétrin</span>
                   </div>
                   <div className="grid gap-4 sm:grid-cols-2">
                     <div className="space-y-2">
-                      <Label htmlFor="liters-per-base">Litres (proportionnel)</Label>
+                      <Label htmlFor="oven-kw">Puissance du four (kW){overrideMark("ovenKw")}</Label>
                       <Input
-                        id="liters-per-base"
+                        id="oven-kw"
                         type="number"
-                        step="0.01"
+                        step="0.1"
                         min={0}
-                        value={p.litersPerBase}
-                        onChange={(e) => setP({ ...p, litersPerBase: toPosNumber(e.target.value, p.litersPerBase) })}
+                        value={sp.ovenKw}
+                        onChange={(e) => setParam("ovenKw", toPosNumber(e.target.value, sp.ovenKw))}
                         className="font-mono"
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="water-price">Prix m³ (€)</Label>
+                      <Label htmlFor="preheat-min">Préchauffage (min){overrideMark("preheatMin")}</Label>
                       <Input
-                        id="water-price"
+                        id="preheat-min"
                         type="number"
-                        step="0.1"
+                        step="1"
                         min={0}
-                        value={p.waterPricePerM3}
-                        onChange={(e) => setP({ ...p, waterPricePerM3: toPosNumber(e.target.value, p.waterPricePerM3) })}
+                        value={sp.preheatMin}
+                        onChange={(e) => setParam("preheatMin", toPosNumber(e.target.value, sp.preheatMin))}
                         className="font-mono"
                       />
                     </div>
-                  </div>
-                </div>
-
-                <Separator />
-
-                {/* Main-d'œuvre */}
-                <div className="space-y-3">
-                  <div className="flex items-center gap-2 text-sm font-semibold">
-                    <HandCoins className="h-4 w-4 text-primary" />
-                    <span>Main-d'œuvre</span>
-                  </div>
-                  <div className="grid gap-4 sm:grid-cols-2">
                     <div className="space-y-2">
-                      <Label htmlFor="labor-min">Minutes (session)</Label>
+                      <Label htmlFor="bake-min">Cuisson d'une fournée (min){overrideMark("bakeMin")}</Label>
                       <Input
-                        id="labor-min"
+                        id="bake-min"
                         type="number"
                         step="1"
                         min={0}
-                        value={p.laborMinPerBase}
-                        onChange={(e) => setP({ ...p, laborMinPerBase: toPosNumber(e.target.value, p.laborMinPerBase) })}
+                        value={sp.bakeMin}
+                        onChange={(e) => setParam("bakeMin", toPosNumber(e.target.value, sp.bakeMin))}
                         className="font-mono"
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="labor-hourly">Taux horaire (€)</Label>
+                      <Label htmlFor="trays-per-load">Plaques par fournée{overrideMark("traysPerLoad")}</Label>
                       <Input
-                        id="labor-hourly"
+                        id="trays-per-load"
+                        type="number"
+                        step="1"
+                        min={0}
+                        value={sp.traysPerLoad}
+                        onChange={(e) => setParam("traysPerLoad", toPosNumber(e.target.value, sp.traysPerLoad))}
+                        className="font-mono"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="cookies-per-tray">Cookies par plaque{overrideMark("cookiesPerTray")}</Label>
+                      <Input
+                        id="cookies-per-tray"
+                        type="number"
+                        step="1"
+                        min={0}
+                        value={sp.cookiesPerTray}
+                        onChange={(e) => setParam("cookiesPerTray", toPosNumber(e.target.value, sp.cookiesPerTray))}
+                        className="font-mono"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="mixer-capacity">Capacité du pétrin (kg){overrideMark("mixerCapacityKg")}</Label>
+                      <Input
+                        id="mixer-capacity"
                         type="number"
                         step="0.5"
                         min={0}
-                        value={p.laborHourly}
-                        onChange={(e) => setP({ ...p, laborHourly: toPosNumber(e.target.value, p.laborHourly) })}
+                        value={sp.mixerCapacityKg}
+                        onChange={(e) => setParam("mixerCapacityKg", toPosNumber(e.target.value, sp.mixerCapacityKg))}
                         className="font-mono"
                       />
                     </div>
@@ -475,69 +1114,339 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
 
                 <Separator />
 
-                {/* Autres paramètres */}
+                {/* Énergie */}
+                <EnergySection energy={energy} split={energySplit} ovenKwh={plan.ovenKwh} onChange={setEnergy} />
+
+                <Separator />
+
+                {/* Eau */}
                 <div className="space-y-3">
-                  <div className="text-sm font-semibold">Autres paramètres</div>
+                  <div className="flex items-center gap-2 text-sm font-semibold">
+                    <Droplets className="h-4 w-4 text-primary" />
+                    <span>Eau</span>
+                  </div>
                   <div className="grid gap-4 sm:grid-cols-2">
                     <div className="space-y-2">
-                      <Label htmlFor="pack-cost">Emballage / cookie (€)</Label>
+                      <Label htmlFor="liters-per-base">Litres (proportionnel){overrideMark("litersPerBase")}</Label>
                       <Input
-                        id="pack-cost"
+                        id="liters-per-base"
                         type="number"
                         step="0.01"
                         min={0}
-                        value={p.packCostPerCookie}
-                        onChange={(e) => setP({ ...p, packCostPerCookie: toPosNumber(e.target.value, p.packCostPerCookie) })}
+                        value={sp.litersPerBase}
+                        onChange={(e) => setParam("litersPerBase", toPosNumber(e.target.value, sp.litersPerBase))}
                         className="font-mono"
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="overhead">Frais fixes (%)</Label>
+                      <Label htmlFor="water-price">Prix m³ (€){overrideMark("waterPricePerM3")}</Label>
                       <Input
-                        id="overhead"
+                        id="water-price"
                         type="number"
-                        step="1"
+                        step="0.1"
                         min={0}
-                        value={p.overheadPct}
-                        onChange={(e) => setP({ ...p, overheadPct: toPosNumber(e.target.value, p.overheadPct) })}
+                        value={sp.waterPricePerM3}
+                        onChange={(e) => setParam("waterPricePerM3", toPosNumber(e.target.value, sp.waterPricePerM3))}
                         className="font-mono"
                       />
                     </div>
+                  </div>
+                </div>
+
+                <Separator />
+
+                {/* Main-d'œuvre */}
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-sm font-semibold">
+                    <HandCoins className="h-4 w-4 text-primary" />
+                    <span>Main-d'œuvre</span>
+                  </div>
+                  <div className="grid gap-4 sm:grid-cols-2">
                     <div className="space-y-2">
-                      <Label htmlFor="margin">Marge nette (%) (appliquée HT)</Label>
+                      <Label htmlFor="labor-hourly">Taux horaire par défaut (€){overrideMark("laborHourly")}</Label>
                       <Input
-                        id="margin"
+                        id="labor-hourly"
                         type="number"
-                        step="1"
+                        step="0.5"
                         min={0}
-                        value={p.marginPct}
-                        onChange={(e) => setP({ ...p, marginPct: toPosNumber(e.target.value, p.marginPct) })}
+                        value={sp.laborHourly}
+                        onChange={(e) => setParam("laborHourly", toPosNumber(e.target.value, sp.laborHourly))}
                         className="font-mono"
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="vat">TVA (%)</Label>
-                      <Input
-                        id="vat"
-                        type="number"
-                        step="0.1"
-                        min={0}
-                        value={p.vatPct}
-                        onChange={(e) => setP({ ...p, vatPct: toPosNumber(e.target.value, p.vatPct) })}
-                        className="font-mono"
-                      />
+                      <Label>Temps de travail</Label>
+                      <div className="flex h-10 items-center font-mono text-sm">{formatMinutes(labor.minutes)}</div>
+                    </div>
+                  </div>
+                  <LaborTasksEditor tasks={laborTasks} rows={labor.rows} employees={employees} onChange={setLaborTasks} />
+                  <div className="pt-2 text-sm font-medium">Salariés</div>
+                  <EmployeesEditor employees={employees} onChange={setEmployees} />
+                </div>
+
+                <Separator />
+
+                {/* Prix de vente (propre à la recette) */}
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-sm font-semibold">
+                    <Tag className="h-4 w-4 text-primary" />
+                    <span>Prix de vente</span>
+                    <span className="text-xs font-normal text-muted-foreground">(recette)</span>
+                  </div>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="pricing-mode">Mode</Label>
+                      <Select value={pricing.mode} onValueChange={(v) => updatePricing({ mode: v as PricingMode })}>
+                        <SelectTrigger id="pricing-mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="margin">À partir du coût</SelectItem>
+                          <SelectItem value="target">Prix imposé</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="vat-category">Catégorie TVA</Label>
+                      <Select value={recipe.vatCategory} onValueChange={(v) => updateRecipe({ vatCategory: v as VatCategory })}>
+                        <SelectTrigger id="vat-category">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(VAT_CATEGORY_LABELS) as VatCategory[]).map((c) => (
+                            <SelectItem key={c} value={c}>{VAT_CATEGORY_LABELS[c]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {pricing.mode === "target" ? (
+                      <div className="space-y-2">
+                        <Label htmlFor="target-price">Prix imposé / cookie (€)</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            id="target-price"
+                            type="number"
+                            step="0.05"
+                            min={0}
+                            value={pricing.targetPrice}
+                            onChange={(e) => updatePricing({ targetPrice: toPosNumber(e.target.value, pricing.targetPrice) })}
+                            className="font-mono"
+                          />
+                          <Select value={pricing.targetBasis} onValueChange={(v) => updatePricing({ targetBasis: v as PriceBasis })}>
+                            <SelectTrigger className="w-24" aria-label="Prix TTC ou HT">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="ttc">TTC</SelectItem>
+                              <SelectItem value="ht">HT</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="space-y-2">
+                          <Label htmlFor="pricing-method">Méthode</Label>
+                          <Select value={pricing.method} onValueChange={(v) => updatePricing({ method: v as PricingMethod })}>
+                            <SelectTrigger id="pricing-method">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="margin">Taux de marque (% du prix)</SelectItem>
+                              <SelectItem value="markup">Taux de marge (% du coût)</SelectItem>
+                              <SelectItem value="coefficient">Coefficient multiplicateur</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        {pricing.method === "margin" && (
+                          <div className="space-y-2">
+                            <Label htmlFor="margin">Marge nette (%) (appliquée HT){overrideMark("marginPct")}</Label>
+                            <Input
+                              id="margin"
+                              type="number"
+                              step="1"
+                              min={0}
+                              max={99.9}
+                              value={sp.marginPct}
+                              onChange={(e) => setParam("marginPct", toPosNumber(e.target.value, sp.marginPct))}
+                              className="font-mono"
+                            />
+                          </div>
+                        )}
+                        {pricing.method === "markup" && (
+                          <div className="space-y-2">
+                            <Label htmlFor="markup">Taux de marge sur coût (%){overrideMark("markupPct")}</Label>
+                            <Input
+                              id="markup"
+                              type="number"
+                              step="1"
+                              min={0}
+                              value={sp.markupPct}
+                              onChange={(e) => setParam("markupPct", toPosNumber(e.target.value, sp.markupPct))}
+                              className="font-mono"
+                            />
+                          </div>
+                        )}
+                        {pricing.method === "coefficient" && (
+                          <div className="space-y-2">
+                            <Label htmlFor="coefficient">Coefficient (prix HT / coût){overrideMark("coefficient")}</Label>
+                            <Input
+                              id="coefficient"
+                              type="number"
+                              step="0.1"
+                              min={0}
+                              value={sp.coefficient}
+                              onChange={(e) => setParam("coefficient", toPosNumber(e.target.value, sp.coefficient))}
+                              className="font-mono"
+                            />
+                          </div>
+                        )}
+                        <div className="space-y-2">
+                          <Label htmlFor="price-rounding">Arrondi du prix TTC</Label>
+                          <Select value={pricing.rounding} onValueChange={(v) => updatePricing({ rounding: v as PriceRounding })}>
+                            <SelectTrigger id="price-rounding">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(PRICE_ROUNDING_LABELS) as PriceRounding[]).map((r) => (
+                                <SelectItem key={r} value={r}>{PRICE_ROUNDING_LABELS[r]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        {pricing.rounding !== "none" && (
+                          <div className="flex items-center gap-3 sm:pt-8">
+                            <Switch
+                              id="price-round-up"
+                              checked={pricing.roundUp}
+                              onCheckedChange={(roundUp) => updatePricing({ roundUp })}
+                            />
+                            <Label htmlFor="price-round-up" className="text-sm">Toujours arrondir au-dessus</Label>
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                  {pricingError && <p className="text-xs text-destructive">{pricingError}</p>}
+                  {!pricingError && equivalents && (
+                    <p className="text-xs text-muted-foreground">
+                      Équivalences : taux de marque {frNum(equivalents.marginPct, 1)} % • taux de marge {frNum(equivalents.markupPct, 1)} %
+                      {" "}• coefficient {frNum(equivalents.coefficient, 2)}
+                    </p>
+                  )}
+                  {pricing.mode === "target" && (
+                    <p className={`text-xs ${belowCost ? "text-destructive" : "text-muted-foreground"}`}>
+                      Marge obtenue : {frNum(marginPctActual, 1)} % du prix HT, soit {euro(marginPerCookieHT)} / cookie
+                      {belowCost && " — prix inférieur au coût unitaire"}
+                    </p>
+                  )}
+                </div>
+
+                <Separator />
+
+                {/* Emballage (propre à la recette) */}
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-sm font-semibold">
+                    <Package className="h-4 w-4 text-primary" />
+                    <span>Emballage</span>
+                    <span className="text-xs font-normal text-muted-foreground">(recette)</span>
+                  </div>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="packaging-unit">Nomenclature</Label>
+                      <Select value={recipe.packaging.unit} onValueChange={(v) => updatePackaging({ unit: v as PackagingUnit })}>
+                        <SelectTrigger id="packaging-unit">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="cookie">Par cookie</SelectItem>
+                          <SelectItem value="pack">Par sachet</SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
+                    {recipe.packaging.unit === "pack" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="cookies-per-pack">Cookies par sachet</Label>
+                        <Input
+                          id="cookies-per-pack"
+                          type="number"
+                          step="1"
+                          min={1}
+                          value={recipe.packaging.cookiesPerPack}
+                          onChange={(e) =>
+                            updatePackaging({ cookiesPerPack: Math.max(1, Math.round(toPosNumber(e.target.value, recipe.packaging.cookiesPerPack))) })
+                          }
+                          className="font-mono"
+                        />
+                      </div>
+                    )}
                   </div>
+                  <PackagingLinesEditor
+                    lines={recipe.packaging.lines}
+                    catalogue={packaging}
+                    onChange={(lines) => updatePackaging({ lines })}
+                  />
+                  {cookiesWanted > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Soit {euro(packTotal / cookiesWanted)} par cookie
+                      {recipe.packaging.unit === "pack" &&
+                        ` (${Math.ceil(cookiesWanted / recipe.packaging.cookiesPerPack)} sachet${Math.ceil(cookiesWanted / recipe.packaging.cookiesPerPack) > 1 ? "s" : ""})`}
+                      .
+                    </p>
+                  )}
+                </div>
+
+                <Separator />
+
+                {/* Autres paramètres */}
+                <div className="space-y-3">
+                  <div className="text-sm font-semibold">Autres paramètres</div>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="overhead-mode">Frais fixes</Label>
+                      <Select value={overheads.mode} onValueChange={(v) => setOverheads({ ...overheads, mode: v as OverheadMode })}>
+                        <SelectTrigger id="overhead-mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="percent">% du sous-total</SelectItem>
+                          <SelectItem value="allocated">Charges mensuelles réparties</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {overheads.mode === "percent" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="overhead">Frais fixes (%){overrideMark("overheadPct")}</Label>
+                        <Input
+                          id="overhead"
+                          type="number"
+                          step="1"
+                          min={0}
+                          value={sp.overheadPct}
+                          onChange={(e) => setParam("overheadPct", toPosNumber(e.target.value, sp.overheadPct))}
+                          className="font-mono"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {/* Registre toujours visible : il alimente aussi le point mort */}
+                  {overheads.mode === "percent" && (
+                    <p className="text-xs text-muted-foreground">
+                      Charges mensuelles : non réparties sur le coût en mode %, elles servent au calcul du point mort.
+                    </p>
+                  )}
+                  <FixedCostsEditor overheads={overheads} onChange={setOverheads} />
                 </div>
               </CardContent>
             </Card>
           </div>
 
           {/* Colonne droite - Résultats */}
-          <div className="lg:sticky lg:top-24 lg:self-start">
+          <div className="space-y-6 lg:sticky lg:top-24 lg:self-start">
             <Card>
               <CardHeader>
                 <CardTitle className="text-2xl">Résultats</CardTitle>
+                <p className="text-sm text-muted-foreground">{recipe.name || "Sans nom"}</p>
               </CardHeader>
               <CardContent aria-live="polite" className="space-y-4">
                 <div className="space-y-3 text-base">
@@ -549,12 +1458,30 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
                     <span className="text-muted-foreground">Énergie</span>
                     <span className="tabular-nums">{euro(energyTotal)}</span>
                   </div>
+                  {energy.ovenSource === "gas" ? (
+                    <div className="-mt-2 flex items-center justify-between text-xs text-muted-foreground">
+                      <span className="pl-3">Gaz : {frNum(energySplit.gasKwh)} kWh PCS (≈ {frNum(energySplit.gasM3)} m³)</span>
+                    </div>
+                  ) : (
+                    energySplit.offPeakKwh > 0 && (
+                      <div className="-mt-2 space-y-1 text-xs text-muted-foreground">
+                        <div className="flex items-center justify-between">
+                          <span className="pl-3">dont heures pleines ({frNum(energySplit.peakKwh)} kWh)</span>
+                          <span className="tabular-nums">{euro(energySplit.peakCost)}</span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <span className="pl-3">dont heures creuses ({frNum(energySplit.offPeakKwh)} kWh)</span>
+                          <span className="tabular-nums">{euro(energySplit.offPeakCost)}</span>
+                        </div>
+                      </div>
+                    )
+                  )}
                   <div className="flex items-center justify-between">
                     <span className="text-muted-foreground">Eau</span>
                     <span className="tabular-nums">{euro(waterTotal)}</span>
                   </div>
                   <div className="flex items-center justify-between">
-                    <span className="text-muted-foreground">Main-d'œuvre</span>
+                    <span className="text-muted-foreground">Main-d'œuvre ({formatMinutes(labor.minutes)})</span>
                     <span className="tabular-nums">{euro(laborTotal)}</span>
                   </div>
                   <div className="flex items-center justify-between">
@@ -571,7 +1498,9 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
                 </div>
 
                 <div className="flex items-center justify-between text-base">
-                  <span className="text-muted-foreground">Frais fixes</span>
+                  <span className="text-muted-foreground">
+                    Frais fixes{overheads.mode === "allocated" ? " (charges réparties)" : ` (${frNum(ep.overheadPct)} %)`}
+                  </span>
                   <span className="tabular-nums">{euro(overheadAmount)}</span>
                 </div>
 
@@ -588,8 +1517,14 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
                 </div>
                 <div className="flex items-center justify-between text-base">
   <span className="font-medium">Marge nette (HT) par cookie</span>
-  <span className="font-bold tabular-nums">{euro(marginPerCookieHT)}</span>
+  <span className={`font-bold tabular-nums ${belowCost ? "text-destructive" : ""}`}>{euro(marginPerCookieHT)}</span>
 </div>
+{pricing.mode === "target" && (
+  <div className={`flex items-center justify-between text-sm ${belowCost ? "text-destructive" : "text-muted-foreground"}`}>
+    <span>{belowCost ? "Prix imposé inférieur au coût unitaire" : "Marge obtenue au prix imposé"}</span>
+    <span className="tabular-nums">{frNum(marginPctActual, 1)} %</span>
+  </div>
+)}
 
 <div className="flex items-center justify-between text-sm text-muted-foreground">
   <span>Marge totale (HT) pour {cookiesWanted} cookie{cookiesWanted > 1 ? "s" : ""}</span>
@@ -604,6 +1539,16 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
                     <span className="font-medium">Prix de vente par cookie</span>
                     <span className="text-xl font-bold tabular-nums text-primary">{euro(priceTTC)}</span>
                   </div>
+                  {Math.abs(rawPriceTTC - priceTTC) >= 0.005 && (
+                    <div className="flex items-center justify-between text-sm text-muted-foreground">
+                      <span>Prix calculé avant arrondi</span>
+                      <span className="tabular-nums line-through">{euro(rawPriceTTC)}</span>
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between text-sm text-muted-foreground">
+                    <span>Prix HT par cookie (TVA {frNum(vatPct, 1)} %, {channels[0]?.name || "Sans nom"})</span>
+                    <span className="tabular-nums">{euro(priceHT)}</span>
+                  </div>
                   <div className="flex items-center justify-between">
                     <span className="font-medium">
                       Prix TTC pour {cookiesWanted} cookie{cookiesWanted > 1 ? "s" : ""}
@@ -614,11 +1559,58 @@ const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
                   </div>
                 </div>
 
+                {/* Prix par canal : même HT, TVA selon la consommation, marge nette après commissions */}
+                <div className="space-y-1 text-xs sm:text-sm">
+                  <div className="grid grid-cols-[1fr,repeat(6,3.75rem)] gap-2 text-xs text-muted-foreground">
+                    <span>Canal</span>
+                    <span className="text-right">HT</span>
+                    <span className="text-right">TVA</span>
+                    <span className="text-right">TTC</span>
+                    <span className="text-right">Frais</span>
+                    <span className="text-right">Marge nette</span>
+                    <span className="text-right">{channelMarginPct === null ? "TTC cible" : `TTC à ${frNum(channelMarginPct, 1)} %`}</span>
+                  </div>
+                  {channelPrices.map((c) => (
+                    <div key={c.channel.id} className="grid grid-cols-[1fr,repeat(6,3.75rem)] gap-2">
+                      <span className="truncate">
+                        {c.channel.name || "Sans nom"}{" "}
+                        <span className="text-xs text-muted-foreground">(TVA {frNum(c.vatPct, 1)} %)</span>
+                      </span>
+                      <span className="text-right tabular-nums">{euro(c.priceHT)}</span>
+                      <span className="text-right tabular-nums text-muted-foreground">{euro(c.vat)}</span>
+                      <span className="text-right tabular-nums">{euro(c.priceTTC)}</span>
+                      <span className="text-right tabular-nums text-muted-foreground">{euro(c.fees)}</span>
+                      <span className={`text-right tabular-nums ${c.netMargin < 0 ? "text-destructive" : ""}`}>{euro(c.netMargin)}</span>
+                      <span className="text-right font-medium tabular-nums">{c.requiredTTC === null ? "—" : euro(c.requiredTTC)}</span>
+                    </div>
+                  ))}
+                  <p className="pt-1 text-xs text-muted-foreground">
+                    Marge nette au prix de {channels[0]?.name || "référence"} (HT {euro(priceHT)}), frais de canal déduits
+                    {channelMarginPct === null
+                      ? "."
+                      : ` ; dernière colonne : prix TTC conservant le taux de marque de la méthode active (${frNum(channelMarginPct, 1)} %, avant arrondi).`}
+                  </p>
+                  {vat.regime === "franchise" && (
+                    <p className="pt-1 text-xs text-muted-foreground">{VAT_EXEMPT_MENTION}</p>
+                  )}
+                </div>
+
                 <div className="text-xs text-muted-foreground">
-                  * Perte matière de 3 % automatiquement prise en compte.
+                  * Pertes prises en compte : pâte {frNum(ep.doughLossPct)} %
+                  {mat.handlingLossCost > 0 && <>, manipulation {euro(mat.handlingLossCost)}</>}
+                  {" "}; cuisson {frNum(ep.bakeLossPct)} % (poids cuit ≈ {fixed(bakedCookieWeight, 0)} g).
                 </div>
               </CardContent>
             </Card>
+
+            {/* Tarifs dégressifs */}
+            <TierPricesCard grid={tierGrid} prices={tiers} onChange={setTierGrid} />
+
+            {/* Point mort */}
+            <BreakEvenCard breakEven={breakEven} plannedVolume={overheads.monthlyVolume} />
+
+            {/* Sensibilité */}
+            <SensitivityCard recipe={recipe} ctx={ctx} cookiesWanted={cookiesWanted} />
           </div>
         </div>
       </main>
@@ -0,0 +1,228 @@
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Gift, Plus, Trash2 } from "lucide-react";
+import PackagingLinesEditor from "@/components/PackagingLinesEditor";
+import { boxProduction, boxUnitCosts, computeBox, newBox, type Box, type BoxItem } from "@/lib/boxes";
+import type { CostContext } from "@/lib/costing";
+import { euro, frNum, toPosNumber } from "@/lib/format";
+import { VAT_CATEGORY_LABELS, type VatCategory } from "@/lib/vat";
+
+type Props = {
+  boxes: Box[];
+  ctx: CostContext;
+  onChange: (boxes: Box[]) => void;
+};
+
+/* Coffrets assortis (plusieurs recettes + emballage du coffret) et cookies à cuire pour les produire */
+export default function BoxesCard({ boxes, ctx, onChange }: Props) {
+  const costings = useMemo(() => {
+    const unitCosts = boxUnitCosts(boxes, ctx);
+    return boxes.map((box) => computeBox(box, ctx, unitCosts));
+  }, [boxes, ctx]);
+  const production = useMemo(() => boxProduction(boxes, ctx.recipes), [boxes, ctx.recipes]);
+
+  const update = (id: string, patch: Partial<Box>) => onChange(boxes.map((b) => (b.id === id ? { ...b, ...patch } : b)));
+  const updateItem = (box: Box, idx: number, patch: Partial<BoxItem>) =>
+    update(box.id, { items: box.items.map((it, j) => (j === idx ? { ...it, ...patch } : it)) });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Gift className="h-5 w-5 text-primary" />
+          Coffrets
+        </CardTitle>
+        <Button onClick={() => onChange([...boxes, newBox(ctx.recipes)])} variant="outline" size="sm" className="gap-2">
+          <Plus className="h-4 w-4" />
+          <span className="hidden sm:inline">Ajouter</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {boxes.map((box, i) => {
+          const c = costings[i];
+          return (
+            <div key={box.id} className="space-y-3 rounded-lg border p-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={box.name}
+                  onChange={(e) => update(box.id, { name: e.target.value })}
+                  className="h-9"
+                  aria-label="Nom du coffret"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0 text-destructive"
+                  onClick={() => onChange(boxes.filter((b) => b.id !== box.id))}
+                  aria-label="Supprimer le coffret"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`box-${box.id}-qty`} className="text-xs">Coffrets à produire</Label>
+                  <Input
+                    id={`box-${box.id}-qty`}
+                    type="number"
+                    step="1"
+                    min={0}
+                    value={box.boxesWanted}
+                    onChange={(e) => update(box.id, { boxesWanted: Math.round(toPosNumber(e.target.value, box.boxesWanted)) })}
+                    className="h-9 font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`box-${box.id}-margin`} className="text-xs">Taux de marque (%)</Label>
+                  <Input
+                    id={`box-${box.id}-margin`}
+                    type="number"
+                    step="0.5"
+                    min={0}
+                    max={99}
+                    value={box.marginPct}
+                    onChange={(e) => update(box.id, { marginPct: toPosNumber(e.target.value, box.marginPct) })}
+                    className="h-9 font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`box-${box.id}-vat`} className="text-xs">Catégorie TVA</Label>
+                  <Select value={box.vatCategory} onValueChange={(v) => update(box.id, { vatCategory: v as VatCategory })}>
+                    <SelectTrigger id={`box-${box.id}-vat`} className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(VAT_CATEGORY_LABELS) as VatCategory[]).map((cat) => (
+                        <SelectItem key={cat} value={cat}>{VAT_CATEGORY_LABELS[cat]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {box.items.map((item, idx) => {
+                  const line = c.lines.find((l) => l.item === item);
+                  return (
+                    <div key={idx} className="grid grid-cols-[1fr,5rem,5.5rem,auto] items-center gap-2">
+                      <Select value={item.recipeId} onValueChange={(v) => updateItem(box, idx, { recipeId: v })}>
+                        <SelectTrigger className="h-9" aria-label="Recette">
+                          <SelectValue placeholder="Recette supprimée" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ctx.recipes.map((r) => (
+                            <SelectItem key={r.id} value={r.id}>{r.name || "Sans nom"}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        step="1"
+                        min={0}
+                        value={item.count}
+                        onChange={(e) => updateItem(box, idx, { count: Math.round(toPosNumber(e.target.value, item.count)) })}
+                        className="h-9 text-right font-mono"
+                        aria-label="Cookies par coffret"
+                      />
+                      <span className="text-right text-xs tabular-nums text-muted-foreground">
+                        {line ? `${euro(line.unitCost)} / u` : "—"}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive"
+                        onClick={() => update(box.id, { items: box.items.filter((_, j) => j !== idx) })}
+                        aria-label="Retirer la recette"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  disabled={ctx.recipes.length === 0}
+                  onClick={() => update(box.id, { items: [...box.items, { recipeId: ctx.recipes[0].id, count: 1 }] })}
+                >
+                  <Plus className="h-4 w-4" />
+                  Ajouter une recette
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-muted-foreground">Emballage du coffret</div>
+                <PackagingLinesEditor
+                  lines={box.packaging}
+                  catalogue={ctx.packaging}
+                  onChange={(packaging) => update(box.id, { packaging })}
+                />
+              </div>
+
+              <div className="space-y-1 rounded-lg bg-muted p-3 text-sm">
+                <div className="flex items-center justify-between text-muted-foreground">
+                  <span>Cookies ({c.cookies}) + emballage</span>
+                  <span className="tabular-nums">{euro(c.cookiesCost)} + {euro(c.packTotal)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>Coût du coffret</span>
+                  <span className="font-medium tabular-nums">{euro(c.cost)}</span>
+                </div>
+                {c.error ? (
+                  <p className="text-xs text-destructive">{c.error}</p>
+                ) : (
+                  <>
+                    <div className="flex items-center justify-between text-muted-foreground">
+                      <span>Prix HT (TVA {frNum(c.vatPct, 1)} %)</span>
+                      <span className="tabular-nums">{euro(c.priceHT)}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">Prix TTC du coffret</span>
+                      <span className="font-bold tabular-nums text-primary">{euro(c.priceTTC)}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-muted-foreground">
+                      <span>Marge HT ({box.boxesWanted} coffret{box.boxesWanted > 1 ? "s" : ""})</span>
+                      <span className="tabular-nums">{euro(c.margin)} / coffret · {euro(c.marginTotal)}</span>
+                    </div>
+                  </>
+                )}
+                {c.missing > 0 && (
+                  <p className="text-xs text-destructive">
+                    {c.missing} recette{c.missing > 1 ? "s" : ""} introuvable{c.missing > 1 ? "s" : ""} — ignorée{c.missing > 1 ? "s" : ""}.
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {boxes.length === 0 ? (
+          <p className="py-2 text-center text-sm text-muted-foreground">
+            Aucun coffret — composez un assortiment à partir de vos recettes.
+          </p>
+        ) : (
+          <>
+            <Separator />
+            <div className="space-y-2 text-sm">
+              <div className="font-semibold">Production pour les coffrets</div>
+              {production.map(({ recipe, cookies }) => (
+                <div key={recipe.id} className="flex items-center justify-between">
+                  <span>{recipe.name || "Sans nom"}</span>
+                  <span className="font-mono tabular-nums">{frNum(cookies, 0)} cookies</span>
+                </div>
+              ))}
+              {production.length === 0 && <p className="text-muted-foreground">Aucun coffret à produire.</p>}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
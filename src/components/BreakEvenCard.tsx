@@ -0,0 +1,102 @@
+import { useMemo } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Target } from "lucide-react";
+import { breakEvenSeries, type BreakEven } from "@/lib/breakEven";
+import { euro, frNum } from "@/lib/format";
+
+type Props = {
+  breakEven: BreakEven;
+  plannedVolume: number;    // volume mensuel prévu (registre des frais fixes)
+};
+
+const chartConfig = {
+  revenue: { label: "Chiffre d'affaires HT", color: "hsl(var(--primary))" },
+  totalCost: { label: "Coût total", color: "hsl(var(--destructive))" },
+  fixed: { label: "Charges fixes", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+/* Point mort mensuel : volume et CA couvrant les charges fixes, courbes coûts / CA */
+export default function BreakEvenCard({ breakEven: be, plannedVolume }: Props) {
+  const data = useMemo(() => breakEvenSeries(be, plannedVolume), [be, plannedVolume]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5 text-primary" />
+          Point mort
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">Par mois, charges fixes du registre</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Charges fixes / mois</span>
+            <span className="tabular-nums">{euro(be.fixedMonthly)}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Coût variable / cookie</span>
+            <span className="tabular-nums">{euro(be.variableUnitCost)}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Marge sur coût variable / cookie</span>
+            <span className="tabular-nums">{euro(be.unitContribution)}</span>
+          </div>
+        </div>
+
+        {be.volume === null ? (
+          <p className="rounded-lg bg-muted p-3 text-sm text-destructive">
+            Le prix HT ne couvre pas le coût variable : aucun volume n'atteint le point mort.
+          </p>
+        ) : (
+          <div className="space-y-2 rounded-lg bg-muted p-4">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Volume au point mort</span>
+              <span className="text-lg font-bold tabular-nums text-primary">{frNum(be.volume, 0)} cookies</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="font-medium">CA HT au point mort</span>
+              <span className="font-bold tabular-nums">{euro(be.revenueHT ?? 0)}</span>
+            </div>
+            {be.safetyMarginPct !== null && (
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>Marge de sécurité ({frNum(plannedVolume, 0)} cookies prévus)</span>
+                <span className={`tabular-nums ${be.safetyMarginPct < 0 ? "text-destructive" : ""}`}>
+                  {frNum(be.safetyMarginPct, 1)} %
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
+        <ChartContainer config={chartConfig} className="aspect-[4/3] w-full">
+          <LineChart data={data} margin={{ left: 4, right: 4 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="volume" type="number" tickLine={false} axisLine={false} tickFormatter={(v: number) => frNum(v, 0)} />
+            <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={(v: number) => frNum(v, 0)} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => `${frNum(Number(payload?.[0]?.payload?.volume ?? 0), 0)} cookies`}
+                  formatter={(value, name) => (
+                    <span className="flex w-full justify-between gap-4">
+                      <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+                      <span className="font-mono">{euro(Number(value))}</span>
+                    </span>
+                  )}
+                />
+              }
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            {be.volume !== null && <ReferenceLine x={be.volume} stroke="hsl(var(--primary))" strokeDasharray="4 4" />}
+            <Line dataKey="revenue" type="linear" stroke="var(--color-revenue)" strokeWidth={2} dot={false} />
+            <Line dataKey="totalCost" type="linear" stroke="var(--color-totalCost)" strokeWidth={2} dot={false} />
+            <Line dataKey="fixed" type="linear" stroke="var(--color-fixed)" strokeWidth={1} strokeDasharray="4 4" dot={false} />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Plus, ShoppingBag, Trash2 } from "lucide-react";
+import { newChannel, type SalesChannel } from "@/lib/channels";
+import { toPosNumber } from "@/lib/format";
+import {
+  CONSUMPTION_LABELS,
+  VAT_CATEGORY_LABELS,
+  VAT_EXEMPT_MENTION,
+  type Consumption,
+  type VatCategory,
+  type VatRegime,
+  type VatSettings,
+} from "@/lib/vat";
+
+type Props = {
+  channels: SalesChannel[];
+  vat: VatSettings;
+  onChannelsChange: (channels: SalesChannel[]) => void;
+  onVatChange: (vat: VatSettings) => void;
+};
+
+// Frais propres à chaque canal (plateformes de livraison, TPE…)
+const FEE_FIELDS: { key: "commissionPct" | "paymentFeePct" | "orderFee" | "cookiesPerOrder"; label: string; step: string }[] = [
+  { key: "commissionPct", label: "Commission (%)", step: "0.5" },
+  { key: "paymentFeePct", label: "Frais paiement (%)", step: "0.1" },
+  { key: "orderFee", label: "Frais / commande (€)", step: "0.1" },
+  { key: "cookiesPerOrder", label: "Cookies / commande", step: "1" },
+];
+
+/* Canaux de vente + régime et taux de TVA (par nature de produit et mode de consommation) */
+export default function ChannelsCard({ channels, vat, onChannelsChange, onVatChange }: Props) {
+  const update = (id: string, patch: Partial<SalesChannel>) =>
+    onChannelsChange(channels.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+
+  const setRate = (category: VatCategory, consumption: Consumption, value: number) =>
+    onVatChange({ ...vat, rates: { ...vat.rates, [category]: { ...vat.rates[category], [consumption]: value } } });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <ShoppingBag className="h-5 w-5 text-primary" />
+          Canaux &amp; TVA
+        </CardTitle>
+        <Button onClick={() => onChannelsChange([...channels, newChannel()])} variant="outline" size="sm" className="gap-2">
+          <Plus className="h-4 w-4" />
+          <span className="hidden sm:inline">Ajouter</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          {channels.map((channel) => (
+            <div key={channel.id} className="space-y-3 rounded-lg border p-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={channel.name}
+                  onChange={(e) => update(channel.id, { name: e.target.value })}
+                  className="h-9"
+                  aria-label="Nom du canal"
+                />
+                <Select value={channel.consumption} onValueChange={(v) => update(channel.id, { consumption: v as Consumption })}>
+                  <SelectTrigger className="h-9 w-36 shrink-0" aria-label="Consommation">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CONSUMPTION_LABELS) as Consumption[]).map((c) => (
+                      <SelectItem key={c} value={c}>{CONSUMPTION_LABELS[c]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0 text-destructive"
+                  onClick={() => onChannelsChange(channels.filter((c) => c.id !== channel.id))}
+                  disabled={channels.length <= 1}
+                  aria-label="Supprimer le canal"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                {FEE_FIELDS.map(({ key, label, step }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`channel-${channel.id}-${key}`} className="text-xs">{label}</Label>
+                    <Input
+                      id={`channel-${channel.id}-${key}`}
+                      type="number"
+                      step={step}
+                      min={key === "cookiesPerOrder" ? 1 : 0}
+                      value={channel[key]}
+                      onChange={(e) => update(channel.id, { [key]: toPosNumber(e.target.value, channel[key]) })}
+                      className="h-9 font-mono"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Le premier canal ({channels[0]?.name || "Sans nom"}) sert de référence pour le prix de vente.
+          </p>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="vat-regime">Régime de TVA</Label>
+            <Select value={vat.regime} onValueChange={(v) => onVatChange({ ...vat, regime: v as VatRegime })}>
+              <SelectTrigger id="vat-regime">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="normal">Assujetti à la TVA</SelectItem>
+                <SelectItem value="franchise">Franchise en base (micro-entreprise)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {vat.regime === "franchise" ? (
+            <p className="text-sm text-muted-foreground">Mention obligatoire sur les factures : « {VAT_EXEMPT_MENTION} ».</p>
+          ) : (
+            <div className="grid grid-cols-[1fr,6rem,6rem] items-center gap-2 text-sm">
+              <span />
+              {(Object.keys(CONSUMPTION_LABELS) as Consumption[]).map((c) => (
+                <span key={c} className="text-right text-xs text-muted-foreground">{CONSUMPTION_LABELS[c]} (%)</span>
+              ))}
+              {(Object.keys(VAT_CATEGORY_LABELS) as VatCategory[]).map((category) => (
+                <div key={category} className="contents">
+                  <span>{VAT_CATEGORY_LABELS[category]}</span>
+                  {(Object.keys(CONSUMPTION_LABELS) as Consumption[]).map((c) => (
+                    <Input
+                      key={c}
+                      type="number"
+                      step="0.1"
+                      min={0}
+                      value={vat.rates[category][c]}
+                      onChange={(e) => setRate(category, c, toPosNumber(e.target.value, vat.rates[category][c]))}
+                      className="h-9 text-right font-mono"
+                      aria-label={`TVA ${VAT_CATEGORY_LABELS[category]} — ${CONSUMPTION_LABELS[c]}`}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2 } from "lucide-react";
+import { euro, toPosNumber } from "@/lib/format";
+import { loadedHourlyCost, newEmployee, type Employee } from "@/lib/labor";
+
+type Props = {
+  employees: Employee[];
+  onChange: (employees: Employee[]) => void;
+};
+
+type RateKey = "grossHourly" | "chargesPct" | "paidLeavePct" | "productivePct";
+
+const FIELDS: { key: RateKey; label: string; step: string }[] = [
+  { key: "grossHourly", label: "Brut horaire (€)", step: "0.1" },
+  { key: "chargesPct", label: "Charges patronales (%)", step: "0.5" },
+  { key: "paidLeavePct", label: "Congés payés (%)", step: "0.5" },
+  { key: "productivePct", label: "Temps productif (%)", step: "1" },
+];
+
+/* Salariés : brut horaire + charges, congés et temps productif -> coût horaire chargé */
+export default function EmployeesEditor({ employees, onChange }: Props) {
+  const update = (id: string, patch: Partial<Employee>) =>
+    onChange(employees.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+
+  return (
+    <div className="space-y-3">
+      {employees.map((employee) => (
+        <div key={employee.id} className="space-y-3 rounded-lg border border-border p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              value={employee.name}
+              onChange={(e) => update(employee.id, { name: e.target.value })}
+              className="h-9 font-medium"
+              aria-label="Nom du salarié"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0 text-destructive"
+              onClick={() => onChange(employees.filter((e) => e.id !== employee.id))}
+              aria-label="Supprimer le salarié"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {FIELDS.map(({ key, label, step }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`employee-${employee.id}-${key}`} className="text-xs">{label}</Label>
+                <Input
+                  id={`employee-${employee.id}-${key}`}
+                  type="number"
+                  step={step}
+                  min={0}
+                  max={key === "productivePct" ? 100 : undefined}
+                  value={employee[key]}
+                  onChange={(e) => {
+                    const v = toPosNumber(e.target.value, employee[key]);
+                    update(employee.id, { [key]: key === "productivePct" ? Math.min(v, 100) : v });
+                  }}
+                  className="h-9 font-mono"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="text-right text-xs text-muted-foreground">
+            Coût horaire chargé : <span className="font-mono font-medium text-foreground">{euro(loadedHourlyCost(employee))}</span>
+          </div>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" className="gap-2" onClick={() => onChange([...employees, newEmployee()])}>
+        <Plus className="h-4 w-4" />
+        Ajouter un salarié
+      </Button>
+    </div>
+  );
+}
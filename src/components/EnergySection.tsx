@@ -0,0 +1,168 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bolt } from "lucide-react";
+import { euro, frNum, toPosNumber } from "@/lib/format";
+import type { EnergySettings, EnergySplit, GasPricing, OvenSource } from "@/lib/energy";
+
+type Props = {
+  energy: EnergySettings;
+  split: EnergySplit;
+  ovenKwh: number;
+  onChange: (energy: EnergySettings) => void;
+};
+
+/* Section « Énergie » des paramètres : source du four, tarifs HP/HC ou gaz, horaire de cuisson */
+export default function EnergySection({ energy, split, ovenKwh, onChange }: Props) {
+  const set = (patch: Partial<EnergySettings>) => onChange({ ...energy, ...patch });
+  // Saisie d'heure : on ignore les valeurs incomplètes
+  const setTime = (key: "offPeakStart" | "offPeakEnd" | "bakeStart", value: string) => value && set({ [key]: value });
+  const isGas = energy.ovenSource === "gas";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <Bolt className="h-4 w-4 text-primary" />
+        <span>Énergie</span>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="oven-source">Four</Label>
+          <Select value={energy.ovenSource} onValueChange={(v) => set({ ovenSource: v as OvenSource })}>
+            <SelectTrigger id="oven-source">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="electric">Électrique</SelectItem>
+              <SelectItem value="gas">Gaz</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Consommation du four</Label>
+          <div className="flex h-10 items-center font-mono text-sm">
+            {frNum(ovenKwh)} kWh{isGas && ` (≈ ${frNum(split.gasM3)} m³)`}
+          </div>
+        </div>
+
+        {isGas ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="gas-pricing">Facturation du gaz</Label>
+              <Select value={energy.gasPricing} onValueChange={(v) => set({ gasPricing: v as GasPricing })}>
+                <SelectTrigger id="gas-pricing">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="kwh">Au kWh PCS</SelectItem>
+                  <SelectItem value="m3">Au m³</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {energy.gasPricing === "kwh" ? (
+              <div className="space-y-2">
+                <Label htmlFor="gas-price-kwh">Prix kWh PCS (€)</Label>
+                <Input
+                  id="gas-price-kwh"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  value={energy.gasPricePerKwh}
+                  onChange={(e) => set({ gasPricePerKwh: toPosNumber(e.target.value, energy.gasPricePerKwh) })}
+                  className="font-mono"
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="gas-price-m3">Prix m³ (€)</Label>
+                <Input
+                  id="gas-price-m3"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  value={energy.gasPricePerM3}
+                  onChange={(e) => set({ gasPricePerM3: toPosNumber(e.target.value, energy.gasPricePerM3) })}
+                  className="font-mono"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="gas-coef">Conversion (kWh PCS / m³)</Label>
+              <Input
+                id="gas-coef"
+                type="number"
+                step="0.1"
+                min={0}
+                value={energy.gasKwhPerM3}
+                onChange={(e) => set({ gasKwhPerM3: toPosNumber(e.target.value, energy.gasKwhPerM3) })}
+                className="font-mono"
+              />
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="peak-price">Prix kWh heures pleines (€)</Label>
+              <Input
+                id="peak-price"
+                type="number"
+                step="0.01"
+                min={0}
+                value={energy.peakPrice}
+                onChange={(e) => set({ peakPrice: toPosNumber(e.target.value, energy.peakPrice) })}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="off-peak-price">Prix kWh heures creuses (€)</Label>
+              <Input
+                id="off-peak-price"
+                type="number"
+                step="0.01"
+                min={0}
+                value={energy.offPeakPrice}
+                onChange={(e) => set({ offPeakPrice: toPosNumber(e.target.value, energy.offPeakPrice) })}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="off-peak-start">Heures creuses</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="off-peak-start"
+                  type="time"
+                  value={energy.offPeakStart}
+                  onChange={(e) => setTime("offPeakStart", e.target.value)}
+                  className="font-mono"
+                />
+                <span className="text-sm text-muted-foreground">à</span>
+                <Input
+                  type="time"
+                  value={energy.offPeakEnd}
+                  onChange={(e) => setTime("offPeakEnd", e.target.value)}
+                  className="font-mono"
+                  aria-label="Fin des heures creuses"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bake-start">Début de la cuisson</Label>
+              <Input
+                id="bake-start"
+                type="time"
+                value={energy.bakeStart}
+                onChange={(e) => setTime("bakeStart", e.target.value)}
+                className="font-mono"
+              />
+            </div>
+          </>
+        )}
+      </div>
+      {!isGas && (
+        <p className="text-xs text-muted-foreground">
+          Heures pleines : {frNum(split.peakKwh)} kWh ({euro(split.peakCost)}) • Heures creuses : {frNum(split.offPeakKwh)} kWh ({euro(split.offPeakCost)})
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { euro, newId, toPosNumber } from "@/lib/format";
+import {
+  FIXED_COST_CATEGORIES,
+  fixedCostPerCookie,
+  monthlyFixedTotal,
+  type FixedCost,
+  type FixedCostCategory,
+  type OverheadSettings,
+} from "@/lib/overheads";
+
+type Props = {
+  overheads: OverheadSettings;
+  onChange: (overheads: OverheadSettings) => void;
+};
+
+/* Registre des charges fixes mensuelles + volume mensuel servant à les répartir */
+export default function FixedCostsEditor({ overheads, onChange }: Props) {
+  const setCosts = (costs: FixedCost[]) => onChange({ ...overheads, costs });
+  const update = (id: string, patch: Partial<FixedCost>) =>
+    setCosts(overheads.costs.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+
+  return (
+    <div className="space-y-3">
+      {overheads.costs.map((cost) => (
+        <div key={cost.id} className="grid grid-cols-[9rem,1fr,6rem,auto] items-center gap-2">
+          <Select value={cost.category} onValueChange={(v) => update(cost.id, { category: v as FixedCostCategory })}>
+            <SelectTrigger className="h-9" aria-label="Catégorie">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FIXED_COST_CATEGORIES) as FixedCostCategory[]).map((c) => (
+                <SelectItem key={c} value={c}>{FIXED_COST_CATEGORIES[c]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={cost.label}
+            onChange={(e) => update(cost.id, { label: e.target.value })}
+            className="h-9"
+            placeholder="Libellé"
+            aria-label="Libellé"
+          />
+          <Input
+            type="number"
+            step="1"
+            min={0}
+            value={cost.monthly}
+            onChange={(e) => update(cost.id, { monthly: toPosNumber(e.target.value, cost.monthly) })}
+            className="h-9 text-right font-mono"
+            aria-label="Montant mensuel (€)"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-destructive"
+            onClick={() => setCosts(overheads.costs.filter((c) => c.id !== cost.id))}
+            aria-label="Supprimer la charge"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        onClick={() => setCosts([...overheads.costs, { id: newId(), category: "other", label: "", monthly: 0 }])}
+      >
+        <Plus className="h-4 w-4" />
+        Ajouter une charge
+      </Button>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="monthly-volume">Volume mensuel (cookies)</Label>
+          <Input
+            id="monthly-volume"
+            type="number"
+            step="100"
+            min={0}
+            value={overheads.monthlyVolume}
+            onChange={(e) => onChange({ ...overheads, monthlyVolume: toPosNumber(e.target.value, overheads.monthlyVolume) })}
+            className="font-mono"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Charges fixes</Label>
+          <div className="flex h-10 items-center text-sm">
+            <span className="font-mono">{euro(monthlyFixedTotal(overheads))}</span>
+            <span className="ml-1 text-muted-foreground">/ mois, soit {euro(fixedCostPerCookie(overheads))} / cookie</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { euro, frNum, newId, toPosNumber } from "@/lib/format";
+import { LABOR_DRIVERS, OWNER, type Employee, type LaborDriver, type LaborRow, type LaborTask } from "@/lib/labor";
+
+type Props = {
+  tasks: LaborTask[];
+  rows: LaborRow[];       // tâches chiffrées pour la production en cours
+  employees: Employee[];
+  onChange: (tasks: LaborTask[]) => void;
+};
+
+// Valeur du select pour une tâche sans affectation (taux horaire par défaut)
+const DEFAULT_RATE = "__default";
+
+const DRIVER_LABELS: Record<LaborDriver, string> = {
+  session: "par session",
+  batch: "par pétrin",
+  tray: "par plaque",
+  cookie: "par cookie",
+};
+
+/* Liste des tâches de production : durée × inducteur (session, pétrin, plaque, cookie), affectée à un salarié */
+export default function LaborTasksEditor({ tasks, rows, employees, onChange }: Props) {
+  const update = (id: string, patch: Partial<LaborTask>) =>
+    onChange(tasks.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+
+  return (
+    <div className="space-y-2">
+      {tasks.map((task) => {
+        const row = rows.find((r) => r.id === task.id);
+        return (
+          <div key={task.id} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Input
+                value={task.name}
+                onChange={(e) => update(task.id, { name: e.target.value })}
+                className="h-9"
+                aria-label="Tâche"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0 text-destructive"
+                onClick={() => onChange(tasks.filter((t) => t.id !== task.id))}
+                aria-label="Supprimer la tâche"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-[5rem,1fr,1fr] items-center gap-2">
+              <Input
+                type="number"
+                step="0.25"
+                min={0}
+                value={task.minutes}
+                onChange={(e) => update(task.id, { minutes: toPosNumber(e.target.value, task.minutes) })}
+                className="h-9 text-right font-mono"
+                aria-label="Durée (min)"
+              />
+              <Select value={task.driver} onValueChange={(v) => update(task.id, { driver: v as LaborDriver })}>
+                <SelectTrigger className="h-9" aria-label="Inducteur">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LABOR_DRIVERS.map((d) => (
+                    <SelectItem key={d} value={d}>min {DRIVER_LABELS[d]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={task.assignee && (task.assignee === OWNER || employees.some((e) => e.id === task.assignee)) ? task.assignee : DEFAULT_RATE}
+                onValueChange={(v) => update(task.id, { assignee: v === DEFAULT_RATE ? undefined : v })}
+              >
+                <SelectTrigger className="h-9" aria-label="Affectée à">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_RATE}>Taux par défaut</SelectItem>
+                  <SelectItem value={OWNER}>Exploitant (non payé)</SelectItem>
+                  {employees.map((e) => (
+                    <SelectItem key={e.id} value={e.id}>{e.name || "Sans nom"}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {row && (
+              <div className="text-right text-xs text-muted-foreground">
+                × {row.count} = <span className="font-mono">{frNum(row.totalMinutes, 1)} min</span>
+                {row.cost > 0 && <> • {euro(row.cost)}</>}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        onClick={() => onChange([...tasks, { id: newId(), name: "Nouvelle tâche", driver: "session", minutes: 0 }])}
+      >
+        <Plus className="h-4 w-4" />
+        Ajouter une tâche
+      </Button>
+    </div>
+  );
+}
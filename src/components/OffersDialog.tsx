@@ -0,0 +1,162 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Plus, Store, Trash2 } from "lucide-react";
+import { PackFields } from "@/components/PackEditor";
+import { fixed, newId, today, toPosNumber } from "@/lib/format";
+import { defaultPack } from "@/lib/packs";
+import type { Ingredient } from "@/lib/recipes";
+import { latestOffers, pricedOffers, selectOffer, type Supplier, type SupplierChoice, type SupplierOffer } from "@/lib/suppliers";
+import { priceDisplayUnit, toDisplayPrice } from "@/lib/units";
+
+type Props = {
+  ingredient: Ingredient;
+  suppliers: Supplier[];
+  onChange: (patch: Partial<Pick<Ingredient, "offers" | "supplierChoice">>) => void;
+};
+
+/* Offres fournisseurs d'un ingrédient + choix de la source (moins cher / préféré / fournisseur précis) */
+export default function OffersDialog({ ingredient, suppliers, onChange }: Props) {
+  const offers = ingredient.offers ?? [];
+  const choice = ingredient.supplierChoice ?? "cheapest";
+  const selected = selectOffer(ingredient, suppliers);
+  const priced = pricedOffers(ingredient, suppliers);
+  const current = latestOffers(priced);
+  const suffix = priceDisplayUnit(ingredient);
+
+  const setOffers = (next: SupplierOffer[]) => onChange({ offers: next });
+
+  const updateOffer = (id: string, patch: Partial<SupplierOffer>) =>
+    setOffers(offers.map((o) => (o.id === id ? { ...o, ...patch } : o)));
+
+  const addOffer = () => {
+    if (suppliers.length === 0) return;
+    setOffers([
+      ...offers,
+      { id: newId(), supplierId: suppliers[0].id, pack: ingredient.pack ?? defaultPack(ingredient.unit), date: today() },
+    ]);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="link" size="sm" className="h-auto gap-1 px-0 text-xs">
+          <Store className="h-3 w-3" />
+          {selected ? selected.supplier.name || "Fournisseur" : "Fournisseurs"}
+          {offers.length > 0 && <span className="text-muted-foreground">({offers.length})</span>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Offres fournisseurs — {ingredient.name || "Sans nom"}</DialogTitle>
+          <DialogDescription>
+            Le coût matière utilise l'offre retenue parmi le dernier tarif de chaque fournisseur ; sans offre, le prix saisi dans le tableau.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Source retenue</Label>
+          <Select value={choice} onValueChange={(v) => onChange({ supplierChoice: v as SupplierChoice })}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="cheapest">La moins chère</SelectItem>
+              <SelectItem value="preferred">Fournisseur préféré</SelectItem>
+              {suppliers.map((s) => (
+                <SelectItem key={s.id} value={s.id}>{s.name || "Sans nom"}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          {offers.map((offer) => {
+            const row = priced.find((p) => p.offer.id === offer.id);
+            const isSelected = selected?.offer.id === offer.id;
+            return (
+              <div key={offer.id} className={`space-y-3 rounded-lg border p-3 ${isSelected ? "border-primary" : "border-border"}`}>
+                <div className="flex items-center gap-2">
+                  <Select value={offer.supplierId} onValueChange={(v) => updateOffer(offer.id, { supplierId: v })}>
+                    <SelectTrigger className="h-9" aria-label="Fournisseur">
+                      <SelectValue placeholder="Fournisseur supprimé" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {suppliers.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>{s.name || "Sans nom"}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-destructive"
+                    onClick={() => setOffers(offers.filter((o) => o.id !== offer.id))}
+                    aria-label="Supprimer l'offre"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <PackFields
+                  pack={offer.pack}
+                  unit={ingredient.unit}
+                  onChange={(pack) => updateOffer(offer.id, { pack })}
+                  idPrefix={`offer-${offer.id}`}
+                />
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor={`offer-${offer.id}-min`} className="text-xs">Commande min. (cond.)</Label>
+                    <Input
+                      id={`offer-${offer.id}-min`}
+                      type="number"
+                      step="1"
+                      min={0}
+                      value={offer.minPacks ?? 0}
+                      onChange={(e) => updateOffer(offer.id, { minPacks: toPosNumber(e.target.value, 0) || undefined })}
+                      className="h-9 font-mono"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`offer-${offer.id}-date`} className="text-xs">Date du tarif</Label>
+                    <Input
+                      id={`offer-${offer.id}-date`}
+                      type="date"
+                      value={offer.date}
+                      onChange={(e) => updateOffer(offer.id, { date: e.target.value || today() })}
+                      className="h-9"
+                    />
+                  </div>
+                </div>
+                <div className="text-right text-xs text-muted-foreground">
+                  {row ? (
+                    <>
+                      Soit <span className="font-mono font-medium text-foreground">{fixed(toDisplayPrice(row.unitPrice, ingredient), 2)}</span> {suffix}
+                      {isSelected && <span className="ml-2 font-medium text-primary">retenue</span>}
+                      {!current.includes(row) && <span className="ml-2">— remplacée par un tarif plus récent</span>}
+                    </>
+                  ) : (
+                    "Fournisseur introuvable — offre ignorée"
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          {suppliers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Ajoutez d'abord un fournisseur dans la carte « Fournisseurs ».</p>
+          ) : (
+            <Button variant="outline" size="sm" className="gap-2" onClick={addOffer}>
+              <Plus className="h-4 w-4" />
+              Ajouter une offre
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
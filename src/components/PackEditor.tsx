@@ -0,0 +1,105 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShoppingBag } from "lucide-react";
+import { toPosNumber } from "@/lib/format";
+import { defaultPack, formatPack, packUnitsFor, type Pack, type PackUnit } from "@/lib/packs";
+import { unitLabel, type Unit } from "@/lib/units";
+
+type FieldsProps = {
+  pack: Pack;
+  unit: Unit;                  // unité de l'ingrédient (limite les unités de conditionnement)
+  onChange: (pack: Pack) => void;
+  idPrefix?: string;           // ids uniques quand plusieurs éditeurs sont affichés
+};
+
+/* Champs taille / unité / prix / remise d'un conditionnement (réutilisés par les offres fournisseurs) */
+export function PackFields({ pack, unit, onChange, idPrefix = "pack" }: FieldsProps) {
+  const set = (patch: Partial<Pack>) => onChange({ ...pack, ...patch });
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-size`} className="text-xs">Taille</Label>
+        <Input
+          id={`${idPrefix}-size`}
+          type="number"
+          step="0.1"
+          min={0}
+          value={pack.size}
+          onChange={(e) => set({ size: toPosNumber(e.target.value, pack.size) })}
+          className="h-9 font-mono"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Unité</Label>
+        <Select value={pack.unit} onValueChange={(u) => set({ unit: u as PackUnit })}>
+          <SelectTrigger className="h-9" aria-label="Unité du conditionnement">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {packUnitsFor(unit).map((u) => (
+              <SelectItem key={u} value={u}>{unitLabel(u)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-price`} className="text-xs">Prix (€)</Label>
+        <Input
+          id={`${idPrefix}-price`}
+          type="number"
+          step="0.01"
+          min={0}
+          value={pack.price}
+          onChange={(e) => set({ price: toPosNumber(e.target.value, pack.price) })}
+          className="h-9 font-mono"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-discount`} className="text-xs">Remise (%)</Label>
+        <Input
+          id={`${idPrefix}-discount`}
+          type="number"
+          step="1"
+          min={0}
+          max={99}
+          value={pack.discountPct ?? 0}
+          onChange={(e) => set({ discountPct: Math.min(99, toPosNumber(e.target.value, pack.discountPct ?? 0)) })}
+          className="h-9 font-mono"
+        />
+      </div>
+    </div>
+  );
+}
+
+type Props = {
+  pack?: Pack;
+  unit: Unit;
+  onChange: (pack: Pack | undefined) => void;
+};
+
+/* Saisie du conditionnement d'achat (taille, unité, prix, remise) — le prix unitaire en est dérivé */
+export default function PackEditor({ pack, unit, onChange }: Props) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="link" size="sm" className="h-auto gap-1 px-0 text-xs">
+          <ShoppingBag className="h-3 w-3" />
+          {pack ? formatPack(pack) : "Saisir un conditionnement"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div className="text-sm font-semibold">Conditionnement d'achat</div>
+        <PackFields pack={pack ?? defaultPack(unit)} unit={unit} onChange={onChange} />
+        {pack && (
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange(undefined)}>
+            Saisir le prix directement
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,79 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Package, Plus, Trash2 } from "lucide-react";
+import { newId, toPosNumber } from "@/lib/format";
+import type { PackagingComponent } from "@/lib/packaging";
+
+type Props = {
+  components: PackagingComponent[];
+  onChange: (components: PackagingComponent[]) => void;
+};
+
+/* Catalogue des composants d'emballage (les nomenclatures se saisissent par recette et par coffret) */
+export default function PackagingCard({ components, onChange }: Props) {
+  const update = (id: string, patch: Partial<PackagingComponent>) =>
+    onChange(components.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Package className="h-5 w-5 text-primary" />
+          Emballages
+        </CardTitle>
+        <Button
+          onClick={() => onChange([...components, { id: newId(), name: "Nouveau composant", unitPrice: 0 }])}
+          variant="outline"
+          size="sm"
+          className="gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          <span className="hidden sm:inline">Ajouter</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {components.length > 0 && (
+          <div className="grid grid-cols-[1fr,6rem,auto] gap-2 text-xs text-muted-foreground">
+            <span>Composant</span>
+            <span className="text-right">€ / pièce</span>
+            <span className="w-8" />
+          </div>
+        )}
+        {components.map((c) => (
+          <div key={c.id} className="grid grid-cols-[1fr,6rem,auto] items-center gap-2">
+            <Input
+              value={c.name}
+              onChange={(e) => update(c.id, { name: e.target.value })}
+              className="h-9"
+              aria-label="Nom du composant"
+            />
+            <Input
+              type="number"
+              step="0.01"
+              min={0}
+              value={c.unitPrice}
+              onChange={(e) => update(c.id, { unitPrice: toPosNumber(e.target.value, c.unitPrice) })}
+              className="h-9 text-right font-mono"
+              aria-label="Prix à la pièce (€)"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0 text-destructive"
+              onClick={() => onChange(components.filter((x) => x.id !== c.id))}
+              aria-label="Supprimer le composant"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {components.length === 0 && (
+          <p className="py-2 text-center text-sm text-muted-foreground">
+            Aucun composant — ajoutez sachets, étiquettes, boîtes… avec leur prix à la pièce.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
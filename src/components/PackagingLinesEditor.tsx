@@ -0,0 +1,74 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { euro, toPosNumber } from "@/lib/format";
+import type { PackagingComponent, PackagingLine } from "@/lib/packaging";
+
+type Props = {
+  lines: PackagingLine[];
+  catalogue: PackagingComponent[];
+  onChange: (lines: PackagingLine[]) => void;
+};
+
+/* Nomenclature d'emballage : composants du catalogue × quantité */
+export default function PackagingLinesEditor({ lines, catalogue, onChange }: Props) {
+  const update = (idx: number, patch: Partial<PackagingLine>) =>
+    onChange(lines.map((l, j) => (j === idx ? { ...l, ...patch } : l)));
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, idx) => {
+        const component = catalogue.find((c) => c.id === line.componentId);
+        return (
+          <div key={idx} className="grid grid-cols-[1fr,5rem,5rem,auto] items-center gap-2">
+            <Select value={line.componentId} onValueChange={(v) => update(idx, { componentId: v })}>
+              <SelectTrigger className="h-9" aria-label="Composant">
+                <SelectValue placeholder="Composant supprimé" />
+              </SelectTrigger>
+              <SelectContent>
+                {catalogue.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>{c.name || "Sans nom"}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="1"
+              min={0}
+              value={line.qty}
+              onChange={(e) => update(idx, { qty: toPosNumber(e.target.value, line.qty) })}
+              className="h-9 text-right font-mono"
+              aria-label="Quantité"
+            />
+            <span className="text-right text-xs tabular-nums text-muted-foreground">
+              {component ? euro(line.qty * component.unitPrice) : "—"}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive"
+              onClick={() => onChange(lines.filter((_, j) => j !== idx))}
+              aria-label="Retirer le composant"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      {catalogue.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Ajoutez d'abord des composants dans la carte « Emballages ».</p>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          onClick={() => onChange([...lines, { componentId: catalogue[0].id, qty: 1 }])}
+        >
+          <Plus className="h-4 w-4" />
+          Ajouter un composant
+        </Button>
+      )}
+    </div>
+  );
+}
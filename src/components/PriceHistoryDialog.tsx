@@ -0,0 +1,168 @@
+import { useMemo } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { History, Plus, Trash2 } from "lucide-react";
+import { computeCost, ingredientUnitPrice, type CostContext } from "@/lib/costing";
+import { fixed, frDate, today, toPosNumber } from "@/lib/format";
+import { historyDates, recipesAsOf, type PriceChange } from "@/lib/priceHistory";
+import type { Ingredient, Recipe } from "@/lib/recipes";
+import { fromDisplayPrice, priceDisplayUnit, toDisplayPrice } from "@/lib/units";
+
+type Props = {
+  ingredient: Ingredient;
+  recipe: Recipe;          // recette dont on suit le coût unitaire
+  ctx: CostContext;
+  cookiesWanted: number;
+  onChange: (history: PriceChange[]) => void;
+};
+
+const chartConfig = {
+  price: { label: "Prix ingrédient", color: "hsl(var(--primary))" },
+  unitCost: { label: "Coût d'un cookie", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+/* Relevés de prix d'un ingrédient + évolution de son prix et du coût unitaire du cookie */
+export default function PriceHistoryDialog({ ingredient, recipe, ctx, cookiesWanted, onChange }: Props) {
+  const history = ingredient.priceHistory ?? [];
+  const suffix = priceDisplayUnit(ingredient);
+
+  const update = (idx: number, patch: Partial<PriceChange>) =>
+    onChange(history.map((h, j) => (j === idx ? { ...h, ...patch } : h)));
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="link" size="sm" className="h-auto gap-1 px-0 text-xs">
+          <History className="h-3 w-3" />
+          Historique
+          {history.length > 0 && <span className="text-muted-foreground">({history.length})</span>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Historique des prix — {ingredient.name || "Sans nom"}</DialogTitle>
+          <DialogDescription>
+            Chaque modification du prix est datée (une par jour). Ajoutez vos factures passées pour retracer l'évolution.
+          </DialogDescription>
+        </DialogHeader>
+
+        <PriceHistoryChart ingredient={ingredient} recipe={recipe} ctx={ctx} cookiesWanted={cookiesWanted} />
+
+        <Separator />
+
+        <div className="space-y-2">
+          {history.map((h, idx) => (
+            <div key={idx} className="grid grid-cols-[8.5rem,6rem,1fr,1fr,auto] items-center gap-2">
+              <Input
+                type="date"
+                value={h.date}
+                onChange={(e) => e.target.value && update(idx, { date: e.target.value })}
+                className="h-9"
+                aria-label="Date"
+              />
+              <Input
+                type="number"
+                step="0.01"
+                min={0}
+                value={toDisplayPrice(h.unitPrice, ingredient)}
+                onChange={(e) => update(idx, { unitPrice: fromDisplayPrice(toPosNumber(e.target.value, 0), ingredient) })}
+                className="h-9 text-right font-mono"
+                aria-label={`Prix (${suffix})`}
+              />
+              <Input
+                value={h.invoiceRef ?? ""}
+                onChange={(e) => update(idx, { invoiceRef: e.target.value || undefined })}
+                placeholder="N° facture"
+                className="h-9"
+              />
+              <Input
+                value={h.note ?? ""}
+                onChange={(e) => update(idx, { note: e.target.value || undefined })}
+                placeholder="Note"
+                className="h-9"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-destructive"
+                onClick={() => onChange(history.filter((_, j) => j !== idx))}
+                aria-label="Supprimer le relevé"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => onChange([...history, { date: today(), unitPrice: ingredient.unitPrice }])}
+            >
+              <Plus className="h-4 w-4" />
+              Ajouter un relevé
+            </Button>
+            <span className="text-xs text-muted-foreground">Prix en {suffix}</span>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Monté seulement dialogue ouvert : recalcule le coût à chaque date de la bibliothèque
+function PriceHistoryChart({ ingredient, recipe, ctx, cookiesWanted }: Omit<Props, "onChange">) {
+  const suffix = priceDisplayUnit(ingredient);
+
+  // Un point par date de changement de prix ; aujourd'hui = état actuel
+  const data = useMemo(() => {
+    const now = today();
+    return historyDates(ctx.recipes).map((date) => {
+      const thenCtx = date === now ? ctx : { ...ctx, recipes: recipesAsOf(ctx.recipes, date) };
+      const thenRecipe = thenCtx.recipes.find((r) => r.id === recipe.id) ?? recipe;
+      const thenIng = thenRecipe.ingredients.find((ing) => ing.id === ingredient.id) ?? ingredient;
+      return {
+        date,
+        price: toDisplayPrice(ingredientUnitPrice(thenIng, thenCtx), ingredient),
+        unitCost: computeCost(thenRecipe, thenCtx, cookiesWanted).unitCost,
+      };
+    });
+  }, [ctx, recipe, ingredient, cookiesWanted]);
+
+  return data.length > 1 ? (
+    <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+      <LineChart data={data} margin={{ left: 4, right: 4 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="date" tickFormatter={(d: string) => frDate(d).slice(0, 5)} tickLine={false} axisLine={false} />
+        <YAxis yAxisId="price" tickFormatter={(v: number) => fixed(v, 2)} tickLine={false} axisLine={false} width={48} />
+        <YAxis yAxisId="cost" orientation="right" tickFormatter={(v: number) => fixed(v, 2)} tickLine={false} axisLine={false} width={48} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => frDate(String(payload?.[0]?.payload?.date ?? ""))}
+              formatter={(value, name) => (
+                <span className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+                  <span className="font-mono">
+                    {fixed(Number(value), 2)} {name === "price" ? suffix : "€"}
+                  </span>
+                </span>
+              )}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line yAxisId="price" dataKey="price" type="stepAfter" stroke="var(--color-price)" strokeWidth={2} dot />
+        <Line yAxisId="cost" dataKey="unitCost" type="stepAfter" stroke="var(--color-unitCost)" strokeWidth={2} dot />
+      </LineChart>
+    </ChartContainer>
+  ) : (
+    <p className="py-4 text-center text-sm text-muted-foreground">
+      Pas encore d'évolution à afficher — un seul relevé connu.
+    </p>
+  );
+}
@@ -0,0 +1,116 @@
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Activity } from "lucide-react";
+import type { CostContext } from "@/lib/costing";
+import { euro, fixed, frNum, toPosNumber } from "@/lib/format";
+import type { Recipe } from "@/lib/recipes";
+import { sensitivity, type SensitivityMetric } from "@/lib/sensitivity";
+
+type Props = {
+  recipe: Recipe;
+  ctx: CostContext;
+  cookiesWanted: number;
+};
+
+const METRIC_LABELS: Record<SensitivityMetric, string> = {
+  unitCost: "Coût unitaire",
+  priceTTC: "Prix TTC",
+};
+
+/* Sensibilité : impact de ±X % sur chaque entrée, en diagramme tornade trié par impact */
+export default function SensitivityCard({ recipe, ctx, cookiesWanted }: Props) {
+  const [pct, setPct] = useState(10);
+  const [metric, setMetric] = useState<SensitivityMetric>("unitCost");
+
+  const rows = useMemo(
+    () => sensitivity(recipe, ctx, cookiesWanted, pct, metric),
+    [recipe, ctx, cookiesWanted, pct, metric]
+  );
+  const data = rows.map((r) => ({ label: r.label, low: r.low[metric], high: r.high[metric] }));
+
+  const chartConfig = {
+    low: { label: `−${frNum(pct)} %`, color: "hsl(var(--muted-foreground))" },
+    high: { label: `+${frNum(pct)} %`, color: "hsl(var(--primary))" },
+  } satisfies ChartConfig;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5 text-primary" />
+          Sensibilité
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">Écart sur le résultat quand une seule entrée varie</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="sensitivity-pct">Variation (± %)</Label>
+            <Input
+              id="sensitivity-pct"
+              type="number"
+              step="1"
+              min={1}
+              max={90}
+              value={pct}
+              onChange={(e) => setPct(Math.min(90, Math.max(1, toPosNumber(e.target.value, pct))))}
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sensitivity-metric">Impact sur</Label>
+            <Select value={metric} onValueChange={(v) => setMetric(v as SensitivityMetric)}>
+              <SelectTrigger id="sensitivity-metric">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(METRIC_LABELS) as SensitivityMetric[]).map((m) => (
+                  <SelectItem key={m} value={m}>{METRIC_LABELS[m]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: Math.max(160, data.length * 28 + 48) }}>
+          <BarChart data={data} layout="vertical" stackOffset="sign" margin={{ left: 4, right: 12 }}>
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(v: number) => fixed(v, 2)} />
+            <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={120} interval={0} />
+            <ReferenceLine x={0} stroke="hsl(var(--border))" />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, name) => (
+                    <span className="flex w-full justify-between gap-4">
+                      <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+                      <span className="font-mono">
+                        {Number(value) >= 0 ? "+" : ""}
+                        {euro(Number(value))}
+                      </span>
+                    </span>
+                  )}
+                />
+              }
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="low" stackId="delta" fill="var(--color-low)" radius={2} />
+            <Bar dataKey="high" stackId="delta" fill="var(--color-high)" radius={2} />
+          </BarChart>
+        </ChartContainer>
+
+        {rows.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Entrée la plus influente : <span className="font-medium text-foreground">{rows[0].label}</span>
+            {" "}({chartConfig.low.label} : {euro(rows[0].low[metric])} ; {chartConfig.high.label} : {euro(rows[0].high[metric])}).
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
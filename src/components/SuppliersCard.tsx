@@ -0,0 +1,73 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Plus, Star, Store, Trash2 } from "lucide-react";
+import { newId } from "@/lib/format";
+import type { Supplier } from "@/lib/suppliers";
+
+type Props = {
+  suppliers: Supplier[];
+  onChange: (suppliers: Supplier[]) => void;
+};
+
+/* Catalogue des fournisseurs (les offres se saisissent ingrédient par ingrédient) */
+export default function SuppliersCard({ suppliers, onChange }: Props) {
+  const update = (id: string, patch: Partial<Supplier>) =>
+    onChange(suppliers.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Store className="h-5 w-5 text-primary" />
+          Fournisseurs
+        </CardTitle>
+        <Button
+          onClick={() => onChange([...suppliers, { id: newId(), name: "Nouveau fournisseur" }])}
+          variant="outline"
+          size="sm"
+          className="gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          <span className="hidden sm:inline">Ajouter</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {suppliers.map((s) => (
+          <div key={s.id} className="flex items-center gap-2">
+            <Input
+              value={s.name}
+              onChange={(e) => update(s.id, { name: e.target.value })}
+              className="h-9"
+              aria-label="Nom du fournisseur"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className={`h-8 w-8 shrink-0 ${s.preferred ? "text-primary" : "text-muted-foreground"}`}
+              onClick={() => update(s.id, { preferred: !s.preferred || undefined })}
+              aria-label={s.preferred ? "Retirer des préférés" : "Marquer comme préféré"}
+              aria-pressed={!!s.preferred}
+            >
+              <Star className={`h-4 w-4 ${s.preferred ? "fill-current" : ""}`} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0 text-destructive"
+              onClick={() => onChange(suppliers.filter((x) => x.id !== s.id))}
+              aria-label="Supprimer le fournisseur"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {suppliers.length === 0 && (
+          <p className="py-2 text-center text-sm text-muted-foreground">
+            Aucun fournisseur — ajoutez vos grossistes pour comparer leurs offres par ingrédient.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers, Plus, Trash2 } from "lucide-react";
+import { euro, frNum, toPosNumber } from "@/lib/format";
+import { nextTier, type PriceTier, type TierGrid, type TierMode, type TierPrice } from "@/lib/tiers";
+
+type Props = {
+  grid: TierGrid;
+  prices: TierPrice[];      // paliers chiffrés (triés par quantité)
+  onChange: (grid: TierGrid) => void;
+};
+
+const qtyRange = (row: TierPrice) =>
+  row.maxQty === null
+    ? `${frNum(row.tier.minQty, 0)}+`
+    : row.maxQty === row.tier.minQty
+      ? frNum(row.tier.minQty, 0)
+      : `${frNum(row.tier.minQty, 0)}–${frNum(row.maxQty, 0)}`;
+
+/* Grille de prix dégressifs par quantité (commandes d'entreprise) */
+export default function TierPricesCard({ grid, prices, onChange }: Props) {
+  const setTiers = (tiers: PriceTier[]) => onChange({ ...grid, tiers });
+  const update = (id: string, patch: Partial<PriceTier>) =>
+    setTiers(grid.tiers.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  const valueKey = grid.mode === "margin" ? "marginPct" : "discountPct";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-primary" />
+            Tarifs dégressifs
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">Chaque palier est chiffré à sa première quantité</p>
+        </div>
+        <Button onClick={() => setTiers([...grid.tiers, nextTier(grid.tiers)])} variant="outline" size="sm" className="gap-2">
+          <Plus className="h-4 w-4" />
+          <span className="hidden sm:inline">Palier</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="tier-mode">Prix par palier</Label>
+          <Select value={grid.mode} onValueChange={(v) => onChange({ ...grid, mode: v as TierMode })}>
+            <SelectTrigger id="tier-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="discount">Remise sur le prix unitaire</SelectItem>
+              <SelectItem value="margin">Taux de marque par palier</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr,1fr,auto] gap-2 text-xs text-muted-foreground">
+            <span>À partir de (cookies)</span>
+            <span>{grid.mode === "margin" ? "Taux de marque (%)" : "Remise (%)"}</span>
+            <span className="w-8" />
+          </div>
+          {grid.tiers.map((tier) => (
+            <div key={tier.id} className="grid grid-cols-[1fr,1fr,auto] items-center gap-2">
+              <Input
+                type="number"
+                step="1"
+                min={1}
+                value={tier.minQty}
+                onChange={(e) => update(tier.id, { minQty: Math.max(1, Math.round(toPosNumber(e.target.value, tier.minQty))) })}
+                className="h-9 font-mono"
+                aria-label="Quantité minimale"
+              />
+              <Input
+                type="number"
+                step="0.5"
+                min={0}
+                max={grid.mode === "discount" ? 100 : undefined}
+                value={tier[valueKey]}
+                onChange={(e) => update(tier.id, { [valueKey]: toPosNumber(e.target.value, tier[valueKey]) })}
+                className="h-9 font-mono"
+                aria-label={grid.mode === "margin" ? "Taux de marque (%)" : "Remise (%)"}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-destructive"
+                onClick={() => setTiers(grid.tiers.filter((t) => t.id !== tier.id))}
+                aria-label="Supprimer le palier"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {prices.length > 0 ? (
+          <div className="space-y-1 rounded-lg bg-muted p-4 text-sm">
+            <div className="grid grid-cols-[1fr,4.5rem,5.5rem,6.5rem] gap-2 text-xs text-muted-foreground">
+              <span>Quantité</span>
+              <span className="text-right">Prix TTC / u</span>
+              <span className="text-right">Total TTC</span>
+              <span className="text-right">Marge HT</span>
+            </div>
+            {prices.map((row) => (
+              <div key={row.tier.id} className="grid grid-cols-[1fr,4.5rem,5.5rem,6.5rem] gap-2">
+                <span className="tabular-nums">{qtyRange(row)}</span>
+                {row.error ? (
+                  <span className="col-span-3 text-right text-xs text-destructive">{row.error}</span>
+                ) : (
+                  <>
+                    <span className="text-right font-medium tabular-nums">{euro(row.priceTTC)}</span>
+                    <span className="text-right tabular-nums">{euro(row.totalTTC)}</span>
+                    <span className={`text-right tabular-nums ${row.marginPerCookie < 0 ? "text-destructive" : ""}`}>
+                      {euro(row.marginTotal)} <span className="text-xs text-muted-foreground">({frNum(row.marginPct, 0)} %)</span>
+                    </span>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="py-2 text-center text-sm text-muted-foreground">Aucun palier — ajoutez-en un pour établir un devis.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
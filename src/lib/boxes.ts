@@ -0,0 +1,141 @@
+import { computeCost, type CostContext } from "@/lib/costing";
+import { newId, nz } from "@/lib/format";
+import { bomCost, sanitizePackagingLines, type PackagingLine } from "@/lib/packaging";
+import { priceAtMargin } from "@/lib/pricing";
+import type { Recipe } from "@/lib/recipes";
+import { VAT_CATEGORY_LABELS, vatRate, type VatCategory } from "@/lib/vat";
+
+/* ================= Coffrets assortis ================= */
+// Un coffret réunit des cookies de plusieurs recettes + un emballage propre au coffret
+export type BoxItem = {
+  recipeId: string;
+  count: number;          // cookies de cette recette par coffret
+};
+
+export type Box = {
+  id: string;
+  name: string;
+  items: BoxItem[];
+  packaging: PackagingLine[];  // boîte, calage, étiquette… (par coffret)
+  marginPct: number;      // taux de marque du coffret (%)
+  vatCategory: VatCategory;
+  boxesWanted: number;    // coffrets à produire
+};
+
+export const defaultBoxes: Box[] = [
+  {
+    id: "coffret6",
+    name: "Coffret 6 cookies",
+    items: [{ recipeId: "classique", count: 6 }],
+    packaging: [
+      { componentId: "boite", qty: 1 },
+      { componentId: "calage", qty: 1 },
+      { componentId: "etiquette-boite", qty: 1 },
+    ],
+    marginPct: 55,
+    vatCategory: "food",
+    boxesWanted: 10,
+  },
+];
+
+export const newBox = (recipes: Recipe[]): Box => ({
+  id: newId(),
+  name: "Nouveau coffret",
+  items: recipes.length > 0 ? [{ recipeId: recipes[0].id, count: 6 }] : [],
+  packaging: [],
+  marginPct: 50,
+  vatCategory: "food",
+  boxesWanted: 1,
+});
+
+export const boxCookieCount = (box: Box) => box.items.reduce((s, it) => s + nz(it.count), 0);
+
+// Dans un coffret, le cookie n'a pas d'emballage individuel
+const withoutUnitPack = (recipe: Recipe): Recipe => ({ ...recipe, packaging: { ...recipe.packaging, lines: [] } });
+
+export type BoxLine = { item: BoxItem; recipe: Recipe; unitCost: number; cost: number };
+
+// Coût d'un coffret : chaque cookie au coût unitaire de sa recette (voir boxUnitCosts) ;
+// une recette absente de la production (aucun coffret prévu) est chiffrée pour un seul coffret.
+// TVA selon la catégorie du coffret et le canal de référence.
+export const computeBox = (box: Box, ctx: CostContext, unitCosts: Map<string, number>) => {
+  const lines = box.items.flatMap((item): BoxLine[] => {
+    const recipe = ctx.recipes.find((r) => r.id === item.recipeId);
+    if (!recipe || !(item.count > 0)) return [];
+    const unitCost = unitCosts.get(recipe.id) ?? computeCost(withoutUnitPack(recipe), ctx, item.count).unitCost;
+    return [{ item, recipe, unitCost, cost: nz(unitCost * item.count) }];
+  });
+  const cookiesCost = lines.reduce((s, l) => s + l.cost, 0);
+  const packTotal = bomCost(box.packaging, ctx.packaging);
+  const cost = nz(cookiesCost + packTotal);
+  const vatPct = vatRate(ctx.vat, box.vatCategory, ctx.channels[0]?.consumption ?? "takeaway");
+  const { priceHT, error } = priceAtMargin(cost, box.marginPct);
+  const priceTTC = nz(priceHT * (1 + vatPct / 100));
+  const margin = nz(priceHT - cost);
+  return {
+    lines,
+    missing: box.items.filter((it) => !ctx.recipes.some((r) => r.id === it.recipeId)).length,
+    cookies: boxCookieCount(box),
+    cookiesCost,
+    packTotal,
+    cost,
+    vatPct,
+    priceHT,
+    priceTTC,
+    margin,
+    marginTotal: margin * Math.max(0, Math.round(nz(box.boxesWanted))),
+    error,
+  };
+};
+
+// Cookies à cuire par recette pour l'ensemble des coffrets prévus
+export const boxProduction = (boxes: Box[], recipes: Recipe[]) =>
+  recipes.flatMap((recipe) => {
+    const cookies = boxes.reduce(
+      (s, box) =>
+        s + box.items.filter((it) => it.recipeId === recipe.id).reduce((n, it) => n + nz(it.count), 0)
+          * Math.max(0, Math.round(nz(box.boxesWanted))),
+      0
+    );
+    return cookies > 0 ? [{ recipe, cookies }] : [];
+  });
+
+// Coût unitaire de chaque recette, chiffrée une seule fois sur sa production totale pour les coffrets :
+// les coûts par fournée et par session ne sont comptés qu'une fois, même si la recette garnit plusieurs coffrets
+export const boxUnitCosts = (boxes: Box[], ctx: CostContext) =>
+  new Map(
+    boxProduction(boxes, ctx.recipes).map(({ recipe, cookies }) => [
+      recipe.id,
+      computeCost(withoutUnitPack(recipe), ctx, cookies).unitCost,
+    ])
+  );
+
+/* ============ Relecture du stockage ============ */
+const sanitizeBoxItem = (raw: unknown): BoxItem | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const count = Math.round(Number(r.count));
+  if (typeof r.recipeId !== "string" || !Number.isFinite(count) || count < 0) return null;
+  return { recipeId: r.recipeId, count };
+};
+
+export const sanitizeBox = (raw: unknown): Box | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const num = (v: unknown, def: number) => {
+    const n = Number(v);
+    return Number.isFinite(n) && n >= 0 ? n : def;
+  };
+  return {
+    id: typeof r.id === "string" && r.id ? r.id : newId(),
+    name: typeof r.name === "string" ? r.name : "",
+    items: Array.isArray(r.items) ? r.items.map(sanitizeBoxItem).filter((it): it is BoxItem => it !== null) : [],
+    packaging: sanitizePackagingLines(r.packaging),
+    marginPct: num(r.marginPct, 50),
+    vatCategory: typeof r.vatCategory === "string" && r.vatCategory in VAT_CATEGORY_LABELS ? (r.vatCategory as VatCategory) : "food",
+    boxesWanted: Math.round(num(r.boxesWanted, 1)),
+  };
+};
+
+export const sanitizeBoxes = (raw: unknown): Box[] =>
+  Array.isArray(raw) ? raw.map(sanitizeBox).filter((b): b is Box => b !== null) : defaultBoxes;
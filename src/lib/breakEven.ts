@@ -0,0 +1,50 @@
+import { nz } from "@/lib/format";
+import { monthlyFixedTotal, type OverheadSettings } from "@/lib/overheads";
+
+/* ================= Point mort (mensuel) ================= */
+// Charges fixes = registre mensuel ; coût variable = sous-total de la production ramené au cookie
+export type BreakEven = {
+  fixedMonthly: number;
+  variableUnitCost: number;     // € HT / cookie
+  unitPriceHT: number;
+  unitContribution: number;     // marge sur coût variable par cookie
+  volume: number | null;        // cookies / mois (null : prix sous le coût variable)
+  revenueHT: number | null;     // CA HT / mois au point mort
+  safetyMarginPct: number | null; // écart du volume prévu au point mort
+};
+
+export const computeBreakEven = (
+  overheads: OverheadSettings,
+  variableSubtotal: number,
+  cookiesWanted: number,
+  unitPriceHT: number
+): BreakEven => {
+  const fixedMonthly = monthlyFixedTotal(overheads);
+  const variableUnitCost = cookiesWanted > 0 ? nz(variableSubtotal / cookiesWanted) : 0;
+  const unitContribution = nz(unitPriceHT - variableUnitCost);
+  const volume = unitContribution > 0 ? Math.ceil(fixedMonthly / unitContribution) : null;
+  const planned = overheads.monthlyVolume;
+  return {
+    fixedMonthly,
+    variableUnitCost,
+    unitPriceHT,
+    unitContribution,
+    volume,
+    revenueHT: volume !== null ? volume * unitPriceHT : null,
+    safetyMarginPct: volume !== null && planned > 0 ? ((planned - volume) / planned) * 100 : null,
+  };
+};
+
+// Points de la courbe coûts / CA, de 0 à un peu au-delà du point mort et du volume prévu
+export const breakEvenSeries = (be: BreakEven, plannedVolume: number, steps = 20) => {
+  const maxVolume = Math.max(be.volume !== null ? be.volume * 2 : 0, plannedVolume * 1.2, 10);
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const volume = Math.round((maxVolume * i) / steps);
+    return {
+      volume,
+      revenue: volume * be.unitPriceHT,
+      totalCost: be.fixedMonthly + volume * be.variableUnitCost,
+      fixed: be.fixedMonthly,
+    };
+  });
+};
@@ -0,0 +1,62 @@
+import { newId, nz } from "@/lib/format";
+import { CONSUMPTION_LABELS, type Consumption } from "@/lib/vat";
+
+/* ================= Canaux de vente ================= */
+// Le premier canal sert de référence pour le prix de vente (marge, prix imposé, arrondi)
+export type SalesChannel = {
+  id: string;
+  name: string;
+  consumption: Consumption;   // détermine le taux de TVA
+  commissionPct: number;      // commission de la plateforme, % du prix TTC
+  paymentFeePct: number;      // frais de TPE / paiement, % du prix TTC
+  orderFee: number;           // frais fixes par commande (€)
+  cookiesPerOrder: number;    // panier moyen, pour répartir les frais par commande
+};
+
+const NO_FEES = { commissionPct: 0, paymentFeePct: 0, orderFee: 0, cookiesPerOrder: 1 };
+
+export const defaultChannels: SalesChannel[] = [
+  { id: "boutique", name: "Boutique", consumption: "takeaway", ...NO_FEES, paymentFeePct: 1.5 },
+  { id: "salon", name: "Salon de thé", consumption: "onSite", ...NO_FEES, paymentFeePct: 1.5 },
+  { id: "livraison", name: "Appli de livraison", consumption: "takeaway", ...NO_FEES, commissionPct: 30, cookiesPerOrder: 6 },
+];
+
+export const newChannel = (): SalesChannel => ({ id: newId(), name: "Nouveau canal", consumption: "takeaway", ...NO_FEES });
+
+/* ============ Commissions ============ */
+const feeRate = (c: SalesChannel) => (nz(c.commissionPct) + nz(c.paymentFeePct)) / 100;
+const orderFeePerCookie = (c: SalesChannel) => nz(c.orderFee) / Math.max(1, nz(c.cookiesPerOrder));
+
+// Commissions + frais de paiement + part des frais de commande, pour un cookie vendu à ce prix TTC
+export const channelFees = (c: SalesChannel, priceTTC: number) => nz(priceTTC * feeRate(c) + orderFeePerCookie(c));
+
+// Prix HT qui garde le taux de marque visé une fois les frais du canal déduits (null si inatteignable)
+export const priceForMargin = (c: SalesChannel, unitCost: number, marginPct: number, vatPct: number) => {
+  const room = 1 - nz(marginPct) / 100 - feeRate(c) * (1 + nz(vatPct) / 100);
+  return room > 0 ? nz((unitCost + orderFeePerCookie(c)) / room) : null;
+};
+
+/* ============ Relecture du stockage ============ */
+export const sanitizeChannel = (raw: unknown): SalesChannel | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const num = (key: keyof typeof NO_FEES) => {
+    const v = Number(r[key]);
+    return Number.isFinite(v) && v >= 0 ? v : NO_FEES[key];
+  };
+  return {
+    id: typeof r.id === "string" && r.id ? r.id : newId(),
+    name: typeof r.name === "string" ? r.name : "",
+    consumption: typeof r.consumption === "string" && r.consumption in CONSUMPTION_LABELS ? (r.consumption as Consumption) : "takeaway",
+    commissionPct: num("commissionPct"),
+    paymentFeePct: num("paymentFeePct"),
+    orderFee: num("orderFee"),
+    cookiesPerOrder: Math.max(1, num("cookiesPerOrder")),
+  };
+};
+
+export const sanitizeChannels = (raw: unknown): SalesChannel[] => {
+  if (!Array.isArray(raw)) return defaultChannels;
+  const channels = raw.map(sanitizeChannel).filter((c): c is SalesChannel => c !== null);
+  return channels.length > 0 ? channels : defaultChannels;
+};
@@ -0,0 +1,278 @@
+import { channelFees, priceForMargin, type SalesChannel } from "@/lib/channels";
+import { energyCost, type EnergySettings } from "@/lib/energy";
+import { nz } from "@/lib/format";
+import { computeLabor, type Employee, type LaborTask } from "@/lib/labor";
+import { packagingCost, type PackagingComponent } from "@/lib/packaging";
+import { fixedCostPerCookie, type OverheadSettings } from "@/lib/overheads";
+import { pricingEquivalents, pricingError, sellingPrice } from "@/lib/pricing";
+import { planBatches } from "@/lib/production";
+import { MAX_LOSS_PCT, effectiveParams, type Ingredient, type Params, type Recipe } from "@/lib/recipes";
+import { minOrderQty, selectOffer, type SelectedOffer, type Supplier } from "@/lib/suppliers";
+import { toPriceBasis, unitGrams, unitKind } from "@/lib/units";
+import { vatRate, type VatSettings } from "@/lib/vat";
+
+/* ================= Contexte de calcul ================= */
+// La bibliothèque est nécessaire pour résoudre les préparations (sous-recettes)
+export type CostContext = {
+  recipes: Recipe[];
+  params: Params;   // paramètres généraux (les surcharges de chaque recette s'y ajoutent)
+  suppliers: Supplier[];
+  energy: EnergySettings;
+  laborTasks: LaborTask[];
+  employees: Employee[];
+  overheads: OverheadSettings;
+  packaging: PackagingComponent[];
+  vat: VatSettings;
+  channels: SalesChannel[];   // le premier sert de référence pour le prix
+};
+
+export type PrepIssue = "missing" | "cycle" | "empty";
+
+// Masse totale (g) d'une liste d'ingrédients en quantités de base
+export const baseTotalGrams = (ingredients: Ingredient[]) =>
+  nz(ingredients.reduce((sum, ing) => sum + nz(ing.baseQty) * unitGrams(ing), 0));
+
+// Part restante après une perte en % (bornée à MAX_LOSS_PCT)
+export const keptRatio = (lossPct: number | undefined) => 1 - Math.min(Math.max(nz(lossPct), 0), MAX_LOSS_PCT) / 100;
+
+// Quantité à sortir pour qu'il en reste `qty` dans la pâte après la perte de manipulation
+export const withHandlingLoss = (ing: Ingredient, qty: number) => qty / keptRatio(ing.lossPct);
+
+// Pièces réellement sorties pour une quantité exacte, selon l'arrondi de l'ingrédient
+export const roundPieces = (ing: Ingredient, qty: number) => {
+  if (unitKind(ing.unit) !== "count" || ing.recipeId !== undefined || qty <= 0) return qty;
+  if (ing.rounding === "up") return Math.ceil(qty - 1e-9);
+  if (ing.rounding === "nearest") return Math.max(1, Math.round(qty));
+  return qty;
+};
+
+const findRecipe = (ctx: CostContext, id: string) => ctx.recipes.find((r) => r.id === id);
+
+/* ============ Préparations ============ */
+// Vrai si la recette `fromId` utilise `targetId`, directement ou via ses propres préparations
+export const usesRecipe = (fromId: string, targetId: string, recipes: Recipe[], seen: string[] = []): boolean => {
+  if (fromId === targetId) return true;
+  if (seen.includes(fromId)) return false;
+  const from = recipes.find((r) => r.id === fromId);
+  if (!from) return false;
+  return from.ingredients.some(
+    (ing) => ing.recipeId !== undefined && usesRecipe(ing.recipeId, targetId, recipes, [...seen, fromId])
+  );
+};
+
+// Coût (€/g) d'une préparation : coût de sa recette de base / masse obtenue après ses propres pertes.
+// `path` = recettes en cours d'évaluation ; y revenir signale un cycle (NaN).
+export const preparationCostPerGram = (id: string, ctx: CostContext, path: string[] = []): number => {
+  if (path.includes(id)) return NaN;
+  const rec = findRecipe(ctx, id);
+  if (!rec) return NaN;
+  const cost = rec.ingredients.reduce(
+    (sum, ing) =>
+      sum + toPriceBasis(withHandlingLoss(ing, ing.baseQty), ing.unit, ing) * ingredientUnitPrice(ing, ctx, [...path, id]),
+    0
+  );
+  const yieldGrams = baseTotalGrams(rec.ingredients) * keptRatio(effectiveParams(ctx.params, rec).doughLossPct);
+  return yieldGrams > 0 ? cost / yieldGrams : NaN;
+};
+
+// Prix unitaire effectif (€/g ou €/pc) : offre fournisseur retenue, sinon prix saisi ;
+// dérivé de sa recette pour une préparation
+export const ingredientUnitPrice = (ing: Ingredient, ctx: CostContext, path: string[] = []): number => {
+  if (ing.recipeId !== undefined) return preparationCostPerGram(ing.recipeId, ctx, path);
+  return selectOffer(ing, ctx.suppliers)?.unitPrice ?? nz(ing.unitPrice);
+};
+
+// Pourquoi une préparation n'a pas de coût (null si tout va bien)
+export const preparationIssue = (id: string, ctx: CostContext, path: string[] = []): PrepIssue | null => {
+  const rec = findRecipe(ctx, id);
+  if (!rec) return "missing";
+  if (path.includes(id) || rec.ingredients.some((ing) => ing.recipeId !== undefined && usesRecipe(ing.recipeId, id, ctx.recipes))) {
+    return "cycle";
+  }
+  const nested = rec.ingredients.find(
+    (ing) => ing.recipeId !== undefined && preparationIssue(ing.recipeId, ctx, [...path, id]) !== null
+  );
+  if (nested) return preparationIssue(nested.recipeId as string, ctx, [...path, id]);
+  return Number.isFinite(preparationCostPerGram(id, ctx, path)) ? null : "empty";
+};
+
+/* ============ Quantités calculées et coût matières ============ */
+export type MaterialRow = Ingredient & {
+  neededQty: number;          // dans la pâte, en unité d’entrée (g, ml, c. à soupe, pc…)
+  neededGrams: number;        // pour info pâte
+  usedQty: number;            // quantité à sortir, pertes et arrondi aux pièces entières compris
+  leftoverQty: number;        // pièces entamées non utilisées (arrondi supérieur)
+  handlingLossCost: number;   // part du coût perdue à la manipulation
+  leftoverCost: number;       // coût des pièces restantes
+  effectiveUnitPrice: number; // €/g ou €/pc (dérivé pour une préparation)
+  selectedOffer: SelectedOffer | null;
+  belowMinOrder: boolean;     // la production ne couvre pas la commande minimale de l'offre retenue
+  cost: number;
+  prepIssue: PrepIssue | null;
+};
+
+export const computeMaterials = (recipe: Recipe, scale: number, ctx: CostContext) => {
+  let totalCost = 0;
+  let handlingLossCost = 0;
+  let leftoverCost = 0;
+  const path = [recipe.id];
+  const rows: MaterialRow[] = recipe.ingredients.map((ing) => {
+    const exactQty = nz(ing.baseQty) * nz(scale);
+    const exactUsed = withHandlingLoss(ing, exactQty);
+    const usedQty = roundPieces(ing, exactUsed);
+    // Arrondi au plus proche : toutes les pièces vont dans la pâte (la fournée se rééquilibre)
+    const neededQty = ing.rounding === "nearest" ? usedQty * keptRatio(ing.lossPct) : exactQty;
+    const leftoverQty = ing.rounding === "up" ? usedQty - exactUsed : 0;
+    const neededGrams = neededQty * unitGrams(ing);
+    const prepIssue = ing.recipeId !== undefined ? preparationIssue(ing.recipeId, ctx, path) : null;
+    const selectedOffer = ing.recipeId === undefined ? selectOffer(ing, ctx.suppliers) : null;
+    const effectiveUnitPrice = prepIssue ? 0 : nz(ingredientUnitPrice(ing, ctx, path), 0);
+    const costOf = (qty: number) => toPriceBasis(qty, ing.unit, ing) * effectiveUnitPrice;
+    const cost = costOf(usedQty);
+    const rowLeftoverCost = costOf(leftoverQty);
+    const lossCost = costOf(usedQty - neededQty - leftoverQty);
+    totalCost += cost;
+    handlingLossCost += lossCost;
+    leftoverCost += rowLeftoverCost;
+    return {
+      ...ing,
+      neededQty,
+      neededGrams,
+      usedQty,
+      leftoverQty,
+      handlingLossCost: lossCost,
+      leftoverCost: rowLeftoverCost,
+      effectiveUnitPrice,
+      selectedOffer,
+      belowMinOrder: !!selectedOffer && toPriceBasis(usedQty, ing.unit, ing) < minOrderQty(selectedOffer.offer, ing),
+      cost,
+      prepIssue,
+    };
+  });
+  return { rows, totalCost: nz(totalCost), handlingLossCost: nz(handlingLossCost), leftoverCost: nz(leftoverCost) };
+};
+
+/* ============ Poids cru / cuit ============ */
+// Portion de pâte crue et poids après cuisson (évaporation), quel que soit le poids saisi
+export const cookieWeights = (recipe: Recipe, p: Params) => {
+  const kept = keptRatio(p.bakeLossPct);
+  const weight = nz(recipe.cookieWeight);
+  const doughCookieWeight = recipe.weightBasis === "baked" ? weight / kept : weight;
+  return { doughCookieWeight, bakedCookieWeight: doughCookieWeight * kept };
+};
+
+/* ============ Coût complet d'une production ============ */
+export const computeCost = (recipe: Recipe, ctx: CostContext, cookiesWanted: number) => {
+  const p = effectiveParams(ctx.params, recipe);
+  const { doughCookieWeight, bakedCookieWeight } = cookieWeights(recipe, p);
+  const declaredNetWeight = Math.floor(bakedCookieWeight); // étiquette : jamais au-dessus du poids réel
+
+  // Pâte totale visée (g)
+  const desiredTotalGrams = nz(doughCookieWeight * cookiesWanted);
+
+  // Facteur d’échelle avec la perte de pâte (les pertes de manipulation s'ajoutent ingrédient par ingrédient)
+  const base = baseTotalGrams(recipe.ingredients);
+  const scale = base > 0 ? nz(desiredTotalGrams / base) / keptRatio(p.doughLossPct) : 0;
+
+  // Quantités calculées et coût matières (préparations au coût de leur propre recette)
+  const mat = computeMaterials(recipe, scale, ctx);
+
+  // Total pâte réellement nécessaire (somme des neededGrams)
+  const totalDoughGrams = mat.rows.reduce((s, r) => s + nz(r.neededGrams), 0);
+  // Portion réelle une fois les pièces arrondies (la fournée peut s'écarter de la pâte visée)
+  const actualPortionGrams = cookiesWanted > 0 ? (totalDoughGrams * keptRatio(p.doughLossPct)) / cookiesWanted : 0;
+
+  // Pétrins et fournées ; l'énergie suit le temps de four (HP/HC ou gaz)
+  const plan = planBatches(p, cookiesWanted, totalDoughGrams);
+  const energySplit = energyCost(ctx.energy, plan.ovenKwh, plan.ovenMinutes);
+  const energyTotal = energySplit.total;
+
+  // Eau proportionnelle à l’échelle ; MO = tâches × inducteurs (session, pétrin, plaque, cookie)
+  const waterTotal  = nz(p.litersPerBase) * (nz(p.waterPricePerM3) / 1000) * nz(scale);
+  const labor = computeLabor(ctx.laborTasks, plan, cookiesWanted, ctx.employees, p.laborHourly);
+  const laborTotal  = labor.cost;
+
+  // Emballage : nomenclature de la recette, par cookie ou par sachet
+  const packTotal = packagingCost(recipe.packaging, ctx.packaging, cookiesWanted);
+
+  // Totaux
+  const variableSubtotal = nz(mat.totalCost + energyTotal + waterTotal + laborTotal + packTotal);
+  // Frais fixes : % du sous-total, ou charges mensuelles réparties sur le volume du mois
+  const overheadPerCookie = fixedCostPerCookie(ctx.overheads);
+  const overheadAmount   = ctx.overheads.mode === "allocated"
+    ? nz(overheadPerCookie * Math.max(0, cookiesWanted))
+    : nz(variableSubtotal * nz(p.overheadPct) / 100);
+  const totalCost        = nz(variableSubtotal + overheadAmount);
+  const unitCost         = cookiesWanted > 0 ? nz(totalCost / cookiesWanted) : 0;
+  // Prix : marge visée, ou prix imposé (la marge en découle), TVA du canal de référence
+  const channelVat = (channel: SalesChannel | undefined) =>
+    vatRate(ctx.vat, recipe.vatCategory, channel?.consumption ?? "takeaway");
+  const vatPct = channelVat(ctx.channels[0]);
+  const { priceHT, priceTTC, rawPriceTTC } = sellingPrice(unitCost, p, recipe.pricing, vatPct);
+
+  // Taux de marque réellement visé : celui de la méthode active (marque, marge, coefficient ou prix imposé),
+  // sur le prix avant arrondi ; null si le prix ne peut pas être calculé
+  const channelMarginPct = pricingEquivalents(unitCost, nz(rawPriceTTC / (1 + vatPct / 100)))?.marginPct ?? null;
+
+  // Même prix HT sur chaque canal ; la TVA dépend du mode de consommation.
+  // Marge nette après commissions, et prix qu'il faudrait pour garder ce taux de marque.
+  const channelPrices = ctx.channels.map((channel) => {
+    const rate = channelVat(channel);
+    const ttc = channel === ctx.channels[0] ? priceTTC : nz(priceHT * (1 + rate / 100));
+    const fees = channelFees(channel, ttc);
+    const requiredHT = channelMarginPct === null ? null : priceForMargin(channel, unitCost, channelMarginPct, rate);
+    return {
+      channel,
+      vatPct: rate,
+      priceHT,
+      vat: ttc - priceHT,
+      priceTTC: ttc,
+      fees,
+      netMargin: nz(priceHT - unitCost - fees),
+      requiredHT,
+      requiredTTC: requiredHT === null ? null : nz(requiredHT * (1 + rate / 100)),
+    };
+  });
+  const belowCost = cookiesWanted > 0 && priceHT < unitCost;
+
+  // Marge nette (HT)
+  const marginPerCookieHT = nz(priceHT - unitCost); // marge par cookie, hors TVA
+  const marginPctActual = priceHT > 0 ? (marginPerCookieHT / priceHT) * 100 : 0; // % réel de marge sur HT (info)
+  const marginTotalHT = marginPerCookieHT * Math.max(0, cookiesWanted);
+
+  return {
+    params: p,
+    desiredTotalGrams,
+    doughCookieWeight,
+    bakedCookieWeight,
+    declaredNetWeight,
+    scale,
+    mat,
+    totalDoughGrams,
+    actualPortionGrams,
+    plan,
+    energySplit,
+    energyTotal,
+    waterTotal,
+    labor,
+    laborTotal,
+    packTotal,
+    variableSubtotal,
+    overheadAmount,
+    totalCost,
+    unitCost,
+    vatPct,
+    priceHT,
+    priceTTC,
+    channelPrices,
+    channelMarginPct,
+    rawPriceTTC,
+    marginPerCookieHT,
+    marginPctActual,
+    marginTotalHT,
+    belowCost,
+    pricingError: pricingError(p, recipe.pricing),
+  };
+};
+
+export type CostBreakdown = ReturnType<typeof computeCost>;
@@ -0,0 +1,116 @@
+import { nz } from "@/lib/format";
+
+/* ================= Énergie du four : sources & tarifs ================= */
+export type OvenSource = "electric" | "gas";
+export type GasPricing = "kwh" | "m3";   // gaz facturé au kWh PCS ou au m³
+
+export type EnergySettings = {
+  ovenSource: OvenSource;
+  // Électricité : heures pleines / heures creuses
+  peakPrice: number;        // €/kWh HP
+  offPeakPrice: number;     // €/kWh HC
+  offPeakStart: string;     // début des heures creuses (HH:MM)
+  offPeakEnd: string;       // fin des heures creuses (HH:MM, peut passer minuit)
+  bakeStart: string;        // début de la session de cuisson (HH:MM)
+  // Gaz
+  gasPricing: GasPricing;
+  gasPricePerKwh: number;   // €/kWh PCS
+  gasPricePerM3: number;    // €/m³
+  gasKwhPerM3: number;      // coefficient de conversion (kWh PCS par m³)
+};
+
+export const defaultEnergy: EnergySettings = {
+  ovenSource: "electric",
+  peakPrice: 0.25,
+  offPeakPrice: 0.25,
+  offPeakStart: "22:00",
+  offPeakEnd: "06:00",
+  bakeStart: "08:00",
+  gasPricing: "kwh",
+  gasPricePerKwh: 0.12,
+  gasPricePerM3: 1.3,
+  gasKwhPerM3: 11.2,
+};
+
+export type EnergySplit = {
+  peakKwh: number;
+  offPeakKwh: number;
+  gasKwh: number;
+  gasM3: number;
+  peakCost: number;
+  offPeakCost: number;
+  gasCost: number;
+  total: number;
+};
+
+const DAY_MIN = 24 * 60;
+const HHMM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+};
+
+// Vrai si la minute du jour tombe dans la plage [start, end[ (plage pouvant passer minuit)
+const inWindow = (minute: number, start: number, end: number) =>
+  start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+
+// Minutes de four tombant en heures creuses, pour une session commençant à `bakeStart`
+export const offPeakMinutes = (s: EnergySettings, ovenMinutes: number) => {
+  const start = toMinutes(s.bakeStart);
+  const hcStart = toMinutes(s.offPeakStart);
+  const hcEnd = toMinutes(s.offPeakEnd);
+  const windowLength = (hcEnd - hcStart + DAY_MIN) % DAY_MIN;
+  const fullDays = Math.floor(ovenMinutes / DAY_MIN);
+  let total = fullDays * windowLength;
+  for (let t = fullDays * DAY_MIN; t < ovenMinutes; t++) {
+    const slice = Math.min(1, ovenMinutes - t);
+    if (inWindow((start + t) % DAY_MIN, hcStart, hcEnd)) total += slice;
+  }
+  return total;
+};
+
+// Répartit la consommation du four entre HP / HC (électrique) ou la valorise au tarif gaz
+export const energyCost = (s: EnergySettings, ovenKwh: number, ovenMinutes: number): EnergySplit => {
+  const zero = { peakKwh: 0, offPeakKwh: 0, gasKwh: 0, gasM3: 0, peakCost: 0, offPeakCost: 0, gasCost: 0 };
+  if (s.ovenSource === "gas") {
+    const gasM3 = s.gasKwhPerM3 > 0 ? ovenKwh / s.gasKwhPerM3 : 0;
+    const gasCost = s.gasPricing === "m3" ? gasM3 * nz(s.gasPricePerM3) : ovenKwh * nz(s.gasPricePerKwh);
+    return { ...zero, gasKwh: ovenKwh, gasM3, gasCost, total: gasCost };
+  }
+  const offPeakShare = ovenMinutes > 0 ? offPeakMinutes(s, ovenMinutes) / ovenMinutes : 0;
+  const offPeakKwh = ovenKwh * offPeakShare;
+  const peakKwh = ovenKwh - offPeakKwh;
+  const peakCost = peakKwh * nz(s.peakPrice);
+  const offPeakCost = offPeakKwh * nz(s.offPeakPrice);
+  return { ...zero, peakKwh, offPeakKwh, peakCost, offPeakCost, total: peakCost + offPeakCost };
+};
+
+/* ============ Relecture du stockage ============ */
+// `legacyKwhPrice` : ancien prix unique du kWh (paramètre kwhPrice)
+export const sanitizeEnergy = (raw: unknown, legacyKwhPrice?: unknown): EnergySettings => {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const legacy = Number(legacyKwhPrice);
+  const base =
+    raw === undefined && Number.isFinite(legacy) && legacy >= 0
+      ? { ...defaultEnergy, peakPrice: legacy, offPeakPrice: legacy }
+      : defaultEnergy;
+  const num = (key: keyof EnergySettings) => {
+    const v = Number(r[key]);
+    return r[key] !== undefined && r[key] !== null && Number.isFinite(v) && v >= 0 ? v : (base[key] as number);
+  };
+  const time = (key: keyof EnergySettings) =>
+    typeof r[key] === "string" && HHMM.test(r[key] as string) ? (r[key] as string) : (base[key] as string);
+  return {
+    ovenSource: r.ovenSource === "gas" ? "gas" : "electric",
+    peakPrice: num("peakPrice"),
+    offPeakPrice: num("offPeakPrice"),
+    offPeakStart: time("offPeakStart"),
+    offPeakEnd: time("offPeakEnd"),
+    bakeStart: time("bakeStart"),
+    gasPricing: r.gasPricing === "m3" ? "m3" : "kwh",
+    gasPricePerKwh: num("gasPricePerKwh"),
+    gasPricePerM3: num("gasPricePerM3"),
+    gasKwhPerM3: num("gasKwhPerM3"),
+  };
+};
@@ -0,0 +1,23 @@
+/* ================= Nombres & formatage ================= */
+export const isNum = (x: unknown) => Number.isFinite(x as number);
+export const nz = (n: number, def = 0) => (isNum(n) ? (n as number) : def);
+export const euro = (n: number) =>
+  isNum(n) ? (n as number).toLocaleString("fr-FR", { style: "currency", currency: "EUR" }) : "—";
+export const fixed = (n: number, d = 0) => (isNum(n) ? (n as number).toFixed(d) : "0");
+export const toPosNumber = (s: string, def = 0) => {
+  const n = Number((s || "").replace(",", "."));
+  return Number.isFinite(n) && n >= 0 ? n : def;
+};
+export const newId = () => Math.random().toString(36).slice(2, 10);
+
+/* ================= Dates (AAAA-MM-JJ) ================= */
+export const today = () => new Date().toISOString().slice(0, 10);
+export const frDate = (iso: string) => (iso ? `${iso.slice(8, 10)}/${iso.slice(5, 7)}/${iso.slice(0, 4)}` : "—");
+// Nombre au format français sans zéros inutiles (ex: 2,5 ; 19,4)
+export const frNum = (n: number, maxDigits = 2) =>
+  isNum(n) ? (n as number).toLocaleString("fr-FR", { maximumFractionDigits: maxDigits }) : "—";
+// Durée lisible (ex: 45 min ; 1 h 05)
+export const formatMinutes = (minutes: number) => {
+  const m = Math.round(nz(minutes));
+  return m < 60 ? `${m} min` : `${Math.floor(m / 60)} h ${String(m % 60).padStart(2, "0")}`;
+};
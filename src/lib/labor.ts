@@ -0,0 +1,131 @@
+import { newId, nz } from "@/lib/format";
+import type { BatchPlan } from "@/lib/production";
+
+/* ================= Main-d'œuvre : tâches & inducteurs ================= */
+// Une tâche dure `minutes` par session, par pétrin, par plaque ou par cookie
+export type LaborDriver = "session" | "batch" | "tray" | "cookie";
+export const LABOR_DRIVERS: LaborDriver[] = ["session", "batch", "tray", "cookie"];
+
+export type LaborTask = {
+  id: string;
+  name: string;
+  driver: LaborDriver;
+  minutes: number;
+  assignee?: string;    // id d'un salarié ou OWNER ; absent = taux horaire par défaut
+};
+
+/* ============ Salariés : coût horaire chargé ============ */
+export type Employee = {
+  id: string;
+  name: string;
+  grossHourly: number;     // salaire brut horaire (€)
+  chargesPct: number;      // cotisations patronales (% du brut)
+  paidLeavePct: number;    // provision congés payés (% du brut)
+  productivePct: number;   // part du temps payé réellement productive
+};
+
+// Exploitant non salarié : son temps est compté mais pas valorisé
+export const OWNER = "owner";
+
+export const newEmployee = (): Employee => ({
+  id: newId(),
+  name: "Nouveau salarié",
+  grossHourly: 12,
+  chargesPct: 42,
+  paidLeavePct: 10,
+  productivePct: 85,
+});
+
+// Brut + congés payés, chargés, ramenés aux heures productives
+export const loadedHourlyCost = (e: Employee) =>
+  e.productivePct > 0
+    ? (nz(e.grossHourly) * (1 + nz(e.paidLeavePct) / 100) * (1 + nz(e.chargesPct) / 100)) / (e.productivePct / 100)
+    : 0;
+
+// Coût horaire d'une tâche selon son affectation (salarié supprimé = taux par défaut)
+export const taskHourlyCost = (task: LaborTask, employees: Employee[], defaultHourly: number) => {
+  if (task.assignee === OWNER) return 0;
+  const employee = employees.find((e) => e.id === task.assignee);
+  return employee ? loadedHourlyCost(employee) : nz(defaultHourly);
+};
+
+export const defaultLaborTasks: LaborTask[] = [
+  { id: "pesee",      name: "Pesée",                  driver: "batch",   minutes: 5 },
+  { id: "petrissage", name: "Pétrissage",             driver: "batch",   minutes: 10 },
+  { id: "boulage",    name: "Boulage",                driver: "cookie",  minutes: 0.25 },
+  { id: "cuisson",    name: "Enfournement / cuisson", driver: "tray",    minutes: 3 },
+  { id: "emballage",  name: "Emballage",              driver: "cookie",  minutes: 0.5 },
+  { id: "nettoyage",  name: "Nettoyage",              driver: "session", minutes: 15 },
+];
+
+export type LaborRow = LaborTask & { count: number; totalMinutes: number; hourlyCost: number; cost: number };
+
+// Nombre d'occurrences de l'inducteur pour la production planifiée
+const driverCount = (driver: LaborDriver, plan: BatchPlan, cookiesWanted: number) => {
+  if (driver === "batch") return plan.mixerBatches;
+  if (driver === "tray") return plan.trays;
+  if (driver === "cookie") return Math.max(0, cookiesWanted);
+  return 1;
+};
+
+export const computeLabor = (
+  tasks: LaborTask[],
+  plan: BatchPlan,
+  cookiesWanted: number,
+  employees: Employee[],
+  defaultHourly: number
+) => {
+  const rows: LaborRow[] = tasks.map((task) => {
+    const count = driverCount(task.driver, plan, cookiesWanted);
+    const totalMinutes = nz(task.minutes) * count;
+    const hourlyCost = taskHourlyCost(task, employees, defaultHourly);
+    return { ...task, count, totalMinutes, hourlyCost, cost: (totalMinutes / 60) * hourlyCost };
+  });
+  return {
+    rows,
+    minutes: nz(rows.reduce((s, r) => s + r.totalMinutes, 0)),
+    cost: nz(rows.reduce((s, r) => s + r.cost, 0)),
+  };
+};
+
+/* ============ Relecture du stockage ============ */
+export const sanitizeLaborTask = (raw: unknown): LaborTask | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const minutes = Number(r.minutes);
+  return {
+    id: typeof r.id === "string" && r.id ? r.id : newId(),
+    name: typeof r.name === "string" ? r.name : "",
+    driver: LABOR_DRIVERS.includes(r.driver as LaborDriver) ? (r.driver as LaborDriver) : "session",
+    minutes: Number.isFinite(minutes) && minutes >= 0 ? minutes : 0,
+    ...(typeof r.assignee === "string" && r.assignee && { assignee: r.assignee }),
+  };
+};
+
+export const sanitizeEmployee = (raw: unknown): Employee | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const base = newEmployee();
+  const num = (key: "grossHourly" | "chargesPct" | "paidLeavePct" | "productivePct") => {
+    const v = Number(r[key]);
+    return r[key] !== undefined && r[key] !== null && Number.isFinite(v) && v >= 0 ? v : base[key];
+  };
+  return {
+    id: typeof r.id === "string" && r.id ? r.id : base.id,
+    name: typeof r.name === "string" ? r.name : "",
+    grossHourly: num("grossHourly"),
+    chargesPct: num("chargesPct"),
+    paidLeavePct: num("paidLeavePct"),
+    productivePct: Math.min(num("productivePct"), 100),
+  };
+};
+
+// Tâches enregistrées ; l'ancien format n'avait qu'une durée fixe par session (laborMinPerBase)
+export const sanitizeLaborTasks = (raw: unknown, legacyMinutes?: unknown): LaborTask[] => {
+  if (Array.isArray(raw)) return raw.map(sanitizeLaborTask).filter((t): t is LaborTask => t !== null);
+  const legacy = Number(legacyMinutes);
+  if (legacyMinutes !== undefined && Number.isFinite(legacy) && legacy >= 0) {
+    return [{ id: newId(), name: "Session", driver: "session", minutes: legacy }];
+  }
+  return defaultLaborTasks;
+};
@@ -0,0 +1,71 @@
+import { newId, nz } from "@/lib/format";
+
+/* ================= Frais fixes ================= */
+// « percent » : % du sous-total variable ; « allocated » : charges mensuelles réparties sur le volume du mois
+export type OverheadMode = "percent" | "allocated";
+
+export type FixedCostCategory = "rent" | "insurance" | "accounting" | "software" | "other";
+
+export const FIXED_COST_CATEGORIES: Record<FixedCostCategory, string> = {
+  rent: "Loyer",
+  insurance: "Assurance",
+  accounting: "Comptabilité",
+  software: "Logiciels & abonnements",
+  other: "Autre",
+};
+
+export type FixedCost = {
+  id: string;
+  category: FixedCostCategory;
+  label: string;
+  monthly: number;        // € par mois
+};
+
+export type OverheadSettings = {
+  mode: OverheadMode;
+  monthlyVolume: number;  // cookies vendus par mois (toutes recettes)
+  costs: FixedCost[];
+};
+
+export const defaultOverheads: OverheadSettings = {
+  mode: "percent",
+  monthlyVolume: 3000,
+  costs: [
+    { id: "loyer",     category: "rent",       label: "Loyer du laboratoire", monthly: 600 },
+    { id: "assurance", category: "insurance",  label: "RC professionnelle",   monthly: 40 },
+    { id: "compta",    category: "accounting", label: "Expert-comptable",     monthly: 90 },
+    { id: "logiciels", category: "software",   label: "Caisse & site web",    monthly: 25 },
+  ],
+};
+
+export const monthlyFixedTotal = (o: OverheadSettings) => nz(o.costs.reduce((s, c) => s + nz(c.monthly), 0));
+
+// Part des charges mensuelles portée par un cookie
+export const fixedCostPerCookie = (o: OverheadSettings) =>
+  o.monthlyVolume > 0 ? monthlyFixedTotal(o) / o.monthlyVolume : 0;
+
+/* ============ Relecture du stockage ============ */
+const sanitizeFixedCost = (raw: unknown): FixedCost | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const monthly = Number(r.monthly);
+  return {
+    id: typeof r.id === "string" && r.id ? r.id : newId(),
+    category: typeof r.category === "string" && r.category in FIXED_COST_CATEGORIES ? (r.category as FixedCostCategory) : "other",
+    label: typeof r.label === "string" ? r.label : "",
+    monthly: Number.isFinite(monthly) && monthly >= 0 ? monthly : 0,
+  };
+};
+
+export const sanitizeOverheads = (raw: unknown): OverheadSettings => {
+  if (!raw || typeof raw !== "object") return defaultOverheads;
+  const r = raw as Record<string, unknown>;
+  const volume = Number(r.monthlyVolume);
+  return {
+    mode: r.mode === "allocated" ? "allocated" : "percent",
+    monthlyVolume: Number.isFinite(volume) && volume >= 0 ? volume : defaultOverheads.monthlyVolume,
+    costs: Array.isArray(r.costs)
+      ? r.costs.map(sanitizeFixedCost).filter((c): c is FixedCost => c !== null)
+      : defaultOverheads.costs,
+  };
+};
@@ -0,0 +1,111 @@
+import { newId, nz } from "@/lib/format";
+
+/* ================= Emballages ================= */
+// Composant du catalogue (sachet, étiquette, ruban, boîte…), prix à la pièce
+export type PackagingComponent = {
+  id: string;
+  name: string;
+  unitPrice: number;     // € / pièce
+};
+
+export type PackagingLine = {
+  componentId: string;
+  qty: number;           // pièces par cookie, par sachet ou par coffret
+};
+
+// Nomenclature d'un produit : par cookie, ou par sachet de N cookies
+export type PackagingUnit = "cookie" | "pack";
+
+export type PackagingBom = {
+  unit: PackagingUnit;
+  cookiesPerPack: number;
+  lines: PackagingLine[];
+};
+
+// Ancien montant unique « Emballage / cookie », repris comme composant du catalogue
+export const LEGACY_PACKAGING_ID = "emballage";
+const LEGACY_PACKAGING_PRICE = 0.1;
+
+export const defaultPackagingComponents: PackagingComponent[] = [
+  { id: "sachet",          name: "Sachet kraft",        unitPrice: 0.05 },
+  { id: "etiquette",       name: "Étiquette",           unitPrice: 0.02 },
+  { id: "ruban",           name: "Ruban",               unitPrice: 0.03 },
+  { id: "boite",           name: "Boîte coffret",       unitPrice: 0.9 },
+  { id: "calage",          name: "Calage carton",       unitPrice: 0.25 },
+  { id: "etiquette-boite", name: "Étiquette coffret",   unitPrice: 0.05 },
+];
+
+export const defaultPackagingBom: PackagingBom = {
+  unit: "cookie",
+  cookiesPerPack: 1,
+  lines: [
+    { componentId: "sachet", qty: 1 },
+    { componentId: "etiquette", qty: 1 },
+    { componentId: "ruban", qty: 1 },
+  ],
+};
+
+// Coût des composants d'une nomenclature (composants supprimés ignorés)
+export const bomCost = (lines: PackagingLine[], catalogue: PackagingComponent[]) =>
+  nz(lines.reduce((s, line) => {
+    const component = catalogue.find((c) => c.id === line.componentId);
+    return component ? s + nz(line.qty) * nz(component.unitPrice) : s;
+  }, 0));
+
+// Emballage d'une production : par cookie, ou par sachet entamé (arrondi au sachet supérieur)
+export const packagingCost = (bom: PackagingBom, catalogue: PackagingComponent[], cookies: number) => {
+  const n = Math.max(0, cookies);
+  const units = bom.unit === "pack" ? Math.ceil(n / Math.max(1, bom.cookiesPerPack)) : n;
+  return nz(bomCost(bom.lines, catalogue) * units);
+};
+
+/* ============ Relecture du stockage ============ */
+export const sanitizePackagingLines = (raw: unknown): PackagingLine[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((l): PackagingLine[] => {
+    if (!l || typeof l !== "object") return [];
+    const r = l as Record<string, unknown>;
+    const qty = Number(r.qty);
+    if (typeof r.componentId !== "string" || !Number.isFinite(qty) || qty < 0) return [];
+    return [{ componentId: r.componentId, qty }];
+  });
+};
+
+// Sans nomenclature (ancien format) : une pièce de l'ancien « Emballage / cookie »
+export const sanitizePackagingBom = (raw: unknown): PackagingBom => {
+  if (!raw || typeof raw !== "object") {
+    return { unit: "cookie", cookiesPerPack: 1, lines: [{ componentId: LEGACY_PACKAGING_ID, qty: 1 }] };
+  }
+  const r = raw as Record<string, unknown>;
+  const perPack = Math.round(Number(r.cookiesPerPack));
+  return {
+    unit: r.unit === "pack" ? "pack" : "cookie",
+    cookiesPerPack: Number.isFinite(perPack) && perPack >= 1 ? perPack : 1,
+    lines: sanitizePackagingLines(r.lines),
+  };
+};
+
+const sanitizeComponent = (raw: unknown): PackagingComponent | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const price = Number(r.unitPrice);
+  return {
+    id: typeof r.id === "string" && r.id ? r.id : newId(),
+    name: typeof r.name === "string" ? r.name : "",
+    unitPrice: Number.isFinite(price) && price >= 0 ? price : 0,
+  };
+};
+
+// `legacyPackCost` : ancien paramètre packCostPerCookie, repris au catalogue
+export const sanitizePackagingCatalogue = (raw: unknown, legacyPackCost?: unknown): PackagingComponent[] => {
+  if (Array.isArray(raw)) return raw.map(sanitizeComponent).filter((c): c is PackagingComponent => c !== null);
+  const legacy = Number(legacyPackCost);
+  return [
+    ...defaultPackagingComponents,
+    {
+      id: LEGACY_PACKAGING_ID,
+      name: "Emballage",
+      unitPrice: legacyPackCost !== undefined && Number.isFinite(legacy) && legacy >= 0 ? legacy : LEGACY_PACKAGING_PRICE,
+    },
+  ];
+};
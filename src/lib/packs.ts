@@ -0,0 +1,60 @@
+import { frNum, nz } from "@/lib/format";
+import { toPriceBasis, unitKind, type Convertible, type Unit } from "@/lib/units";
+
+/* ================= Conditionnement d'achat ================= */
+/* Ce qui figure sur la facture : « Beurre 2,5 kg – 19,40 € », « Œufs plateau de 30 – 7,20 € ».
+   Le prix unitaire de l'ingrédient (€/g, ou €/pc pour un ingrédient compté) en est dérivé.
+*/
+export type PackUnit = Extract<Unit, "g" | "kg" | "oz" | "ml" | "cl" | "L" | "pc">;
+export type Pack = {
+  size: number;          // taille du conditionnement (en packUnit)
+  unit: PackUnit;
+  price: number;         // prix payé pour le conditionnement (€)
+  discountPct?: number;  // remise fournisseur éventuelle (%)
+};
+
+// Conditionnements possibles : masse ou volume (via la densité), ou pièces pour un ingrédient compté
+const WEIGHED_PACK_UNITS: PackUnit[] = ["g", "kg", "oz", "ml", "cl", "L"];
+export const packUnitsFor = (unit: Unit): PackUnit[] =>
+  unitKind(unit) === "count" ? ["pc", "g", "kg"] : WEIGHED_PACK_UNITS;
+
+export const defaultPack = (unit: Unit): Pack => {
+  const kind = unitKind(unit);
+  if (kind === "count") return { size: 30, unit: "pc", price: 0 };
+  return { size: 1, unit: kind === "volume" ? "L" : "kg", price: 0 };
+};
+
+// Prix net du conditionnement (après remise)
+export const packNetPrice = (pack: Pack) => nz(pack.price) * (1 - nz(pack.discountPct) / 100);
+
+// Prix unitaire stocké (€/g, ou €/pc pour un ingrédient compté) dérivé du conditionnement
+export const packUnitPrice = (pack: Pack, ing: Convertible) => {
+  const qty = toPriceBasis(pack.size, pack.unit, ing);
+  return qty > 0 ? packNetPrice(pack) / qty : 0;
+};
+
+// Recalcule unitPrice dès que le conditionnement ou les conversions de l'ingrédient changent
+export const withPackPrice = <T extends Convertible & { pack?: Pack; unitPrice: number }>(ing: T): T =>
+  ing.pack ? { ...ing, unitPrice: packUnitPrice(ing.pack, ing) } : ing;
+
+// ex: « 2,5 kg – 19,40 € » ou « 30 pc – 7,20 € (−5 %) »
+export const formatPack = (pack: Pack) => {
+  const price = nz(pack.price).toLocaleString("fr-FR", { style: "currency", currency: "EUR" });
+  const discount = nz(pack.discountPct) > 0 ? ` (−${frNum(nz(pack.discountPct), 1)} %)` : "";
+  return `${frNum(pack.size, 3)} ${pack.unit} – ${price}${discount}`;
+};
+
+export const sanitizePack = (raw: unknown, unit: Unit): Pack | undefined => {
+  if (!raw || typeof raw !== "object") return undefined;
+  const r = raw as Record<string, unknown>;
+  const size = Number(r.size);
+  const price = Number(r.price);
+  const discount = Number(r.discountPct);
+  const pack: Pack = {
+    size: Number.isFinite(size) && size > 0 ? size : 1,
+    unit: packUnitsFor(unit).includes(r.unit as PackUnit) ? (r.unit as PackUnit) : defaultPack(unit).unit,
+    price: Number.isFinite(price) && price >= 0 ? price : 0,
+  };
+  if (Number.isFinite(discount) && discount > 0 && discount < 100) pack.discountPct = discount;
+  return pack;
+};
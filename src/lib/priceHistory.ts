@@ -0,0 +1,91 @@
+import { today } from "@/lib/format";
+import type { Ingredient, Recipe } from "@/lib/recipes";
+import { densityOf } from "@/lib/units";
+
+/* ================= Historique des prix ================= */
+// Un relevé de prix : unitPrice dans la base de l'ingrédient (€/g, ou €/pc si compté)
+export type PriceChange = {
+  date: string;         // AAAA-MM-JJ
+  unitPrice: number;
+  note?: string;
+  invoiceRef?: string;  // n° de facture
+};
+
+const byDate = (a: PriceChange, b: PriceChange) => a.date.localeCompare(b.date);
+
+// Ajoute un relevé ; les modifications d'une même journée sont regroupées
+export const recordPrice = (history: PriceChange[] = [], unitPrice: number, date = today()): PriceChange[] => {
+  const sorted = [...history].sort(byDate);
+  const last = sorted[sorted.length - 1];
+  if (last && last.date === date) return [...sorted.slice(0, -1), { ...last, unitPrice }];
+  if (last && last.unitPrice === unitPrice) return sorted;
+  return [...sorted, { date, unitPrice }];
+};
+
+const dayBefore = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().slice(0, 10);
+};
+
+// Enregistre le nouveau prix si l'édition l'a modifié. Sans historique, l'ancien prix est
+// d'abord conservé comme prix initial (daté de la veille) pour ne pas le perdre.
+// Un changement d'unité ou de densité convertit le prix (€/g ↔ €/pc, €/L → €/g) sans le modifier : rien à relever.
+export const trackPriceChange = (prev: Ingredient | undefined, next: Ingredient): Ingredient => {
+  if (!prev || next.recipeId !== undefined || prev.unit !== next.unit || densityOf(prev) !== densityOf(next)) return next;
+  if (prev.unitPrice === next.unitPrice) return next;
+  const history = next.priceHistory ?? [];
+  const seeded = history.length > 0 || (prev.priceHistory ?? []).length > 0
+    ? history
+    : [{ date: dayBefore(today()), unitPrice: prev.unitPrice, note: "Prix initial" }];
+  return { ...next, priceHistory: recordPrice(seeded, next.unitPrice) };
+};
+
+// Prix en vigueur à une date : dernier relevé antérieur, sinon le plus ancien, sinon le prix actuel
+export const priceAt = (ing: Ingredient, date: string) => {
+  const history = [...(ing.priceHistory ?? [])].sort(byDate);
+  if (history.length === 0) return ing.unitPrice;
+  const before = history.filter((h) => h.date <= date);
+  return (before.length > 0 ? before[before.length - 1] : history[0]).unitPrice;
+};
+
+// La bibliothèque telle qu'elle était à une date (prix relevés + offres déjà connues)
+export const recipesAsOf = (recipes: Recipe[], date: string): Recipe[] =>
+  recipes.map((r) => ({
+    ...r,
+    ingredients: r.ingredients.map((ing) =>
+      ing.recipeId !== undefined
+        ? ing
+        : { ...ing, unitPrice: priceAt(ing, date), offers: ing.offers?.filter((o) => o.date <= date) }
+    ),
+  }));
+
+// Toutes les dates où un prix a changé dans la bibliothèque (+ aujourd'hui)
+export const historyDates = (recipes: Recipe[]) => {
+  const dates = new Set<string>([today()]);
+  for (const r of recipes) {
+    for (const ing of r.ingredients) {
+      ing.priceHistory?.forEach((h) => dates.add(h.date));
+      ing.offers?.forEach((o) => dates.add(o.date));
+    }
+  }
+  return [...dates].sort();
+};
+
+export const sanitizePriceHistory = (raw: unknown): PriceChange[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .flatMap((h): PriceChange[] => {
+      if (!h || typeof h !== "object") return [];
+      const r = h as Record<string, unknown>;
+      const up = Number(r.unitPrice);
+      if (typeof r.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(r.date) || !Number.isFinite(up) || up < 0) return [];
+      return [{
+        date: r.date,
+        unitPrice: up,
+        ...(typeof r.note === "string" && r.note && { note: r.note }),
+        ...(typeof r.invoiceRef === "string" && r.invoiceRef && { invoiceRef: r.invoiceRef }),
+      }];
+    })
+    .sort(byDate);
+};
@@ -0,0 +1,108 @@
+import { nz } from "@/lib/format";
+import type { Params } from "@/lib/recipes";
+
+/* ================= Prix de vente ================= */
+// « margin » : prix déduit du coût et de la marge visée ; « target » : prix imposé, la marge en découle
+export type PricingMode = "margin" | "target";
+export type PriceBasis = "ttc" | "ht";
+// À partir du coût : taux de marque (sur le prix), taux de marge (sur le coût) ou coefficient
+export type PricingMethod = "margin" | "markup" | "coefficient";
+// Arrondi psychologique du prix TTC : aux 0,10 €, aux 0,50 € ou terminaison en ,90
+export type PriceRounding = "none" | "tenth" | "half" | "ninety";
+
+export const PRICE_ROUNDING_LABELS: Record<PriceRounding, string> = {
+  none: "Aucun",
+  tenth: "Aux 0,10 €",
+  half: "Aux 0,50 €",
+  ninety: "Terminé par ,90",
+};
+
+export type Pricing = {
+  mode: PricingMode;
+  method: PricingMethod;
+  rounding: PriceRounding;  // appliqué au prix TTC calculé à partir du coût
+  roundUp: boolean;         // toujours arrondir au-dessus (sinon au plus proche)
+  targetPrice: number;      // prix imposé par cookie (€)
+  targetBasis: PriceBasis;  // le prix imposé est TTC ou HT
+};
+
+export const defaultPricing: Pricing = {
+  mode: "margin",
+  method: "margin",
+  rounding: "none",
+  roundUp: false,
+  targetPrice: 3.5,
+  targetBasis: "ttc",
+};
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+// Prix TTC arrondi selon la règle (au plus proche, ou toujours au-dessus)
+export const roundPrice = (ttc: number, rounding: PriceRounding, up: boolean) => {
+  if (rounding === "none" || !(ttc > 0)) return ttc;
+  const snap = (x: number) => (up ? Math.ceil(cents(x)) : Math.round(cents(x)));
+  if (rounding === "ninety") return cents(Math.max(1, snap(ttc + 0.1)) - 0.1);
+  const step = rounding === "half" ? 0.5 : 0.1;
+  return cents(snap(ttc / step) * step);
+};
+
+// Prix HT qui dégage un taux de marque sur le prix ; à 100 % ou plus, aucun prix ne l'atteint
+export const priceAtMargin = (unitCost: number, marginPct: number): { priceHT: number; error: string | null } =>
+  nz(marginPct) >= 100
+    ? { priceHT: 0, error: "Le taux de marque doit rester sous 100 %." }
+    : { priceHT: nz(unitCost / (1 - nz(marginPct) / 100)), error: null };
+
+// Paramètre invalide pour la méthode choisie (null si le prix peut être calculé)
+export const pricingError = (p: Params, pricing: Pricing): string | null => {
+  if (pricing.mode !== "margin") return null;
+  if (pricing.method === "margin") return priceAtMargin(0, p.marginPct).error;
+  if (pricing.method === "coefficient" && !(nz(p.coefficient) > 0)) return "Le coefficient doit être positif.";
+  return null;
+};
+
+// Prix HT à partir du coût selon la méthode
+const priceFromCost = (unitCost: number, p: Params, method: PricingMethod) => {
+  if (method === "markup") return nz(unitCost * (1 + nz(p.markupPct) / 100));
+  if (method === "coefficient") return nz(unitCost * nz(p.coefficient));
+  return priceAtMargin(unitCost, p.marginPct).priceHT;
+};
+
+// Prix HT / TTC d'un cookie selon le mode de la recette (0 si les paramètres sont invalides).
+// Le TTC calculé est arrondi puis le HT en est redéduit ; rawPriceTTC garde le prix avant arrondi.
+export const sellingPrice = (unitCost: number, p: Params, pricing: Pricing, vatPct: number) => {
+  const vat = 1 + nz(vatPct) / 100;
+  if (pricing.mode === "target") {
+    const target = nz(pricing.targetPrice);
+    return pricing.targetBasis === "ttc"
+      ? { priceHT: nz(target / vat), priceTTC: target, rawPriceTTC: target }
+      : { priceHT: target, priceTTC: nz(target * vat), rawPriceTTC: nz(target * vat) };
+  }
+  const rawPriceHT = pricingError(p, pricing) ? 0 : priceFromCost(unitCost, p, pricing.method);
+  const rawPriceTTC = nz(rawPriceHT * vat);
+  const priceTTC = roundPrice(rawPriceTTC, pricing.rounding, pricing.roundUp);
+  return { priceHT: priceTTC === rawPriceTTC ? rawPriceHT : nz(priceTTC / vat), priceTTC, rawPriceTTC };
+};
+
+// Même prix exprimé avec les trois méthodes (null si le coût ou le prix est nul)
+export const pricingEquivalents = (unitCost: number, priceHT: number) => {
+  if (!(unitCost > 0) || !(priceHT > 0)) return null;
+  return {
+    marginPct: ((priceHT - unitCost) / priceHT) * 100,
+    markupPct: ((priceHT - unitCost) / unitCost) * 100,
+    coefficient: priceHT / unitCost,
+  };
+};
+
+export const sanitizePricing = (raw: unknown): Pricing => {
+  if (!raw || typeof raw !== "object") return defaultPricing;
+  const r = raw as Record<string, unknown>;
+  const target = Number(r.targetPrice);
+  return {
+    mode: r.mode === "target" ? "target" : "margin",
+    method: r.method === "markup" || r.method === "coefficient" ? r.method : "margin",
+    rounding: typeof r.rounding === "string" && r.rounding in PRICE_ROUNDING_LABELS ? (r.rounding as PriceRounding) : "none",
+    roundUp: r.roundUp === true,
+    targetPrice: Number.isFinite(target) && target >= 0 ? target : defaultPricing.targetPrice,
+    targetBasis: r.targetBasis === "ht" ? "ht" : "ttc",
+  };
+};
@@ -0,0 +1,22 @@
+import { nz } from "@/lib/format";
+import type { Params } from "@/lib/recipes";
+
+/* ================= Plan de production (pétrin & four) ================= */
+export type BatchPlan = {
+  mixerBatches: number;   // pétrins nécessaires pour la pâte totale
+  trays: number;          // plaques à cuire
+  ovenLoads: number;      // fournées (plaques enfournées ensemble)
+  ovenMinutes: number;    // préchauffage + cuissons successives
+  ovenKwh: number;
+};
+
+// Le four tourne par fournée : préchauffage une fois, puis une cuisson par fournée
+export const planBatches = (p: Params, cookiesWanted: number, totalDoughGrams: number): BatchPlan => {
+  const cookies = Math.max(0, Math.ceil(nz(cookiesWanted)));
+  const mixerGrams = nz(p.mixerCapacityKg) * 1000;
+  const mixerBatches = totalDoughGrams > 0 && mixerGrams > 0 ? Math.ceil(totalDoughGrams / mixerGrams) : 0;
+  const trays = cookies > 0 && p.cookiesPerTray > 0 ? Math.ceil(cookies / p.cookiesPerTray) : 0;
+  const ovenLoads = trays > 0 && p.traysPerLoad > 0 ? Math.ceil(trays / p.traysPerLoad) : 0;
+  const ovenMinutes = ovenLoads > 0 ? nz(p.preheatMin) + ovenLoads * nz(p.bakeMin) : 0;
+  return { mixerBatches, trays, ovenLoads, ovenMinutes, ovenKwh: (nz(p.ovenKw) * ovenMinutes) / 60 };
+};
@@ -0,0 +1,183 @@
+import { newId } from "@/lib/format";
+import { defaultPackagingBom, sanitizePackagingBom, type PackagingBom } from "@/lib/packaging";
+import { packUnitPrice, sanitizePack, type Pack } from "@/lib/packs";
+import { sanitizePriceHistory, type PriceChange } from "@/lib/priceHistory";
+import { defaultPricing, sanitizePricing, type Pricing } from "@/lib/pricing";
+import { sanitizeOffer, type SupplierChoice, type SupplierOffer } from "@/lib/suppliers";
+import { VAT_CATEGORY_LABELS, type VatCategory } from "@/lib/vat";
+import { DEFAULT_PIECE_GRAMS, isUnit, unitKind, type Unit } from "@/lib/units";
+
+/* ================= Types ================= */
+// Ingrédient compté (œufs…) : pièces entières (arrondi supérieur / au plus proche) ou masse pesée
+export type PieceRounding = "weighed" | "up" | "nearest";
+export const PIECE_ROUNDINGS: PieceRounding[] = ["weighed", "up", "nearest"];
+
+export type Ingredient = {
+  id: string;             // identifiant stable (clé React, réordonnancement)
+  name: string;
+  unit: Unit;
+  gramsPerUnit: number;   // pc : poids moyen d'une pièce en g (1 pour les autres unités)
+  density?: number;       // g/ml pour les unités de volume (1 par défaut)
+  baseQty: number;        // quantité de base (en unité ci-dessus) — sert de référence
+  unitPrice: number;      // PRIX UNITAIRE STOCKÉ (€/g, €/pc si compté) — dérivé de pack s'il existe
+  pack?: Pack;            // conditionnement d'achat (taille, prix, remise)
+  offers?: SupplierOffer[];         // offres fournisseurs (prioritaires sur unitPrice)
+  supplierChoice?: SupplierChoice;  // « cheapest » (défaut), « preferred » ou id fournisseur
+  priceHistory?: PriceChange[];     // relevés datés de unitPrice
+  lossPct?: number;       // perte de manipulation (%) : coquille, reste au bol… (à sortir en plus)
+  rounding?: PieceRounding;         // pc uniquement (« weighed » par défaut)
+  recipeId?: string;      // préparation : recette utilisée comme ingrédient (en g, prix dérivé)
+};
+
+export type Params = typeof defaultParams;
+
+// Le poids saisi est celui de la pâte crue (portion à bouler) ou celui du cookie cuit
+export type WeightBasis = "dough" | "baked";
+
+export type Recipe = {
+  id: string;
+  name: string;
+  ingredients: Ingredient[];
+  cookieWeight: number;       // g/cookie (cru ou cuit selon weightBasis)
+  weightBasis: WeightBasis;
+  pricing: Pricing;           // marge visée ou prix imposé
+  vatCategory: VatCategory;   // nature du produit pour la TVA
+  packaging: PackagingBom;    // nomenclature d'emballage (composants du catalogue)
+  params: Partial<Params>;    // surcharges des paramètres généraux pour cette recette
+};
+
+// Conversion par défaut quand on change d'unité (pc = poids moyen d'une pièce)
+export const defaultGramsPerUnit = (unit: Unit) => (unitKind(unit) === "count" ? DEFAULT_PIECE_GRAMS : 1);
+
+/* ============ Recette par défaut (PRIX & QUANTITÉS À JOUR) ============ */
+/* Point de départ modifiable (et valeur de « Réinitialiser »).
+   Interprétation :
+   - baseQty dans l'unité de l'ingrédient (g, kg, ml, c. à soupe, pc…)
+   - unitPrice pour masses et volumes = €/g (ex: 7,50 €/kg => 0,00750 €/g ; volumes via la densité)
+   - unitPrice pour pc = €/pièce
+*/
+export const defaultIngredients: Ingredient[] = [
+  { id: "oeuf",     name: "Œuf",                 unit: "pc", gramsPerUnit: 55,  baseQty: 1,   unitPrice: 0.25 },     // 0,25 € / pièce
+  { id: "beurre",   name: "Beurre doux",         unit: "g",  gramsPerUnit: 1,   baseQty: 85,  unitPrice: 0.0075 },   // 7,50 €/kg
+  { id: "sucre",    name: "Sucre",               unit: "g",  gramsPerUnit: 1,   baseQty: 85,  unitPrice: 0.0015 },   // 1,50 €/kg
+  { id: "farine",   name: "Farine",              unit: "g",  gramsPerUnit: 1,   baseQty: 150, unitPrice: 0.00085 },  // 0,85 €/kg
+  { id: "pepites",  name: "Pépites de chocolat", unit: "g",  gramsPerUnit: 1,   baseQty: 100, unitPrice: 0.02 },     // 20,00 €/kg
+  { id: "vanille",  name: "Sucre vanillé",       unit: "g",  gramsPerUnit: 1,   baseQty: 8,   unitPrice: 0.0105 },   // 10.50 €/kg
+  { id: "levure",   name: "Levure chimique",     unit: "g",  gramsPerUnit: 1,   baseQty: 4,   unitPrice: 0.00845 },  // 8,45 €/kg
+  { id: "sel",      name: "Sel fin",             unit: "g",  gramsPerUnit: 1,   baseQty: 4,   unitPrice: 0.001 },    // 1,00 €/kg
+];
+
+/* ============ Paramètres par défaut (communs à toutes les recettes) ============ */
+export const defaultParams = {
+  cookiesWanted: 12,     // nb cookies
+  doughLossPct: 3,       // perte de pâte (%) : raclage, restes au bol
+  bakeLossPct: 10,       // perte de poids à la cuisson (%) : évaporation
+  ovenKw: 3,             // puissance du four
+  preheatMin: 15,        // préchauffage (une fois par session)
+  bakeMin: 12,           // cuisson d'une fournée
+  traysPerLoad: 2,       // plaques par fournée
+  cookiesPerTray: 9,
+  mixerCapacityKg: 5,    // pâte par pétrin
+  litersPerBase: 0.02,
+  waterPricePerM3: 4.0,
+  laborHourly: 0,
+  overheadPct: 10,
+  marginPct: 50.7,       // taux de marque (% du prix HT)
+  markupPct: 100,        // taux de marge (% du coût)
+  coefficient: 2,        // coefficient multiplicateur (prix HT / coût)
+};
+
+export const DEFAULT_COOKIE_WEIGHT = 100; // g/cookie
+
+export const MAX_LOSS_PCT = 90; // au-delà, les quantités à sortir n'ont plus de sens
+
+/* ============ Bibliothèque par défaut ============ */
+export const defaultRecipes: Recipe[] = [
+  {
+    id: "classique",
+    name: "Cookie pépites de chocolat",
+    ingredients: defaultIngredients,
+    cookieWeight: DEFAULT_COOKIE_WEIGHT,
+    weightBasis: "dough",
+    pricing: defaultPricing,
+    vatCategory: "food",
+    packaging: defaultPackagingBom,
+    params: {},
+  },
+];
+
+// Paramètres effectifs d'une recette : généraux + surcharges de la recette
+export const effectiveParams = (p: Params, recipe: Recipe): Params => ({ ...p, ...recipe.params });
+
+/* ============ Relecture du stockage (valeurs manquantes/invalides -> défauts) ============ */
+export const sanitizeIngredient = (raw: unknown): Ingredient | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const recipeId = typeof r.recipeId === "string" && r.recipeId ? r.recipeId : undefined;
+  const unit = recipeId === undefined && isUnit(r.unit) ? r.unit : "g";
+  const kind = unitKind(unit);
+  const gpu = Number(r.gramsPerUnit);
+  const qty = Number(r.baseQty);
+  let up = Number(r.unitPrice);
+  let density = Number(r.density);
+  if (kind === "volume" && r.density === undefined) {
+    // ancien format : gramsPerUnit servait de densité et unitPrice était en €/ml
+    density = Number.isFinite(gpu) && gpu > 0 ? gpu : 1;
+    up = up / density;
+  }
+  const loss = Number(r.lossPct);
+  const ing: Ingredient = {
+    id: typeof r.id === "string" && r.id ? r.id : newId(),
+    name: typeof r.name === "string" ? r.name : "",
+    unit,
+    gramsPerUnit: kind === "count" ? (Number.isFinite(gpu) && gpu > 0 ? gpu : defaultGramsPerUnit(unit)) : 1,
+    ...(Number.isFinite(density) && density > 0 && density !== 1 && { density }),
+    baseQty: Number.isFinite(qty) && qty >= 0 ? qty : 0,
+    unitPrice: Number.isFinite(up) && up >= 0 ? up : 0,
+    ...(Number.isFinite(loss) && loss > 0 && { lossPct: Math.min(loss, MAX_LOSS_PCT) }),
+    ...(kind === "count" && PIECE_ROUNDINGS.includes(r.rounding as PieceRounding) && r.rounding !== "weighed" && {
+      rounding: r.rounding as PieceRounding,
+    }),
+    ...(recipeId !== undefined && { recipeId }),
+  };
+  if (recipeId === undefined && Array.isArray(r.offers)) {
+    const offers = r.offers.map((o) => sanitizeOffer(o, unit)).filter(Boolean);
+    if (offers.length > 0) ing.offers = offers;
+    if (typeof r.supplierChoice === "string" && r.supplierChoice) ing.supplierChoice = r.supplierChoice;
+  }
+  const history = recipeId === undefined ? sanitizePriceHistory(r.priceHistory) : [];
+  if (history.length > 0) ing.priceHistory = history;
+  const pack = recipeId === undefined ? sanitizePack(r.pack, unit) : undefined;
+  return pack ? { ...ing, pack, unitPrice: packUnitPrice(pack, ing) } : ing;
+};
+
+// Ne garde que les paramètres connus et numériques
+export const sanitizeParams = (raw: unknown): Partial<Params> => {
+  if (!raw || typeof raw !== "object") return {};
+  const stored = raw as Record<string, unknown>;
+  // ancien nom de la perte de pâte (fixe à 3 %)
+  const r = { doughLossPct: stored.lossPctFixed, ...stored };
+  const out: Partial<Params> = {};
+  for (const key of Object.keys(defaultParams) as (keyof Params)[]) {
+    const v = Number(r[key]);
+    if (r[key] !== undefined && r[key] !== null && Number.isFinite(v) && v >= 0) out[key] = v;
+  }
+  return out;
+};
+
+export const sanitizeRecipe = (raw: unknown): Recipe | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const weight = Number(r.cookieWeight);
+  return {
+    id: typeof r.id === "string" && r.id ? r.id : newId(),
+    name: typeof r.name === "string" ? r.name : "Recette",
+    ingredients: Array.isArray(r.ingredients) ? r.ingredients.map(sanitizeIngredient).filter(Boolean) : [],
+    cookieWeight: Number.isFinite(weight) && weight > 0 ? weight : DEFAULT_COOKIE_WEIGHT,
+    weightBasis: r.weightBasis === "baked" ? "baked" : "dough",
+    pricing: sanitizePricing(r.pricing),
+    vatCategory: typeof r.vatCategory === "string" && r.vatCategory in VAT_CATEGORY_LABELS ? (r.vatCategory as VatCategory) : "food",
+    packaging: sanitizePackagingBom(r.packaging),
+    params: sanitizeParams(r.params),
+  };
+};
@@ -0,0 +1,116 @@
+import { computeCost, ingredientUnitPrice, type CostContext } from "@/lib/costing";
+import { nz } from "@/lib/format";
+import { effectiveParams, type Params, type Recipe } from "@/lib/recipes";
+
+/* ================= Analyse de sensibilité ================= */
+// Une entrée du calcul qu'on fait varier d'un facteur (0,9 = −10 %)
+type Scenario = { recipe: Recipe; ctx: CostContext };
+type SensitivityInput = { key: string; label: string; apply: (s: Scenario, factor: number) => Scenario };
+
+export type SensitivityMetric = "unitCost" | "priceTTC";
+
+export type SensitivityRow = {
+  key: string;
+  label: string;
+  low: Record<SensitivityMetric, number>;    // écart au résultat de base pour −X %
+  high: Record<SensitivityMetric, number>;   // écart au résultat de base pour +X %
+};
+
+// Surcharge un paramètre sur la recette (prioritaire sur les paramètres généraux)
+const scaleParam = (key: keyof Params) => ({ recipe, ctx }: Scenario, factor: number): Scenario => ({
+  recipe: { ...recipe, params: { ...recipe.params, [key]: nz(effectiveParams(ctx.params, recipe)[key]) * factor } },
+  ctx,
+});
+
+const sensitivityInputs = (recipe: Recipe, ctx: CostContext): SensitivityInput[] => [
+  // Prix effectif de chaque matière première (offre retenue comprise)
+  ...recipe.ingredients
+    .filter((ing) => ing.recipeId === undefined)
+    .map((ing): SensitivityInput => ({
+      key: `ing-${ing.id}`,
+      label: ing.name || "Sans nom",
+      apply: (s, factor) => ({
+        ...s,
+        recipe: {
+          ...s.recipe,
+          ingredients: s.recipe.ingredients.map((x) =>
+            x.id === ing.id ? { ...x, unitPrice: ingredientUnitPrice(x, ctx) * factor, offers: undefined } : x
+          ),
+        },
+      }),
+    })),
+  {
+    key: "energy",
+    label: "Prix de l'énergie",
+    apply: (s, factor) => ({
+      ...s,
+      ctx: {
+        ...s.ctx,
+        energy: {
+          ...s.ctx.energy,
+          peakPrice: s.ctx.energy.peakPrice * factor,
+          offPeakPrice: s.ctx.energy.offPeakPrice * factor,
+          gasPricePerKwh: s.ctx.energy.gasPricePerKwh * factor,
+          gasPricePerM3: s.ctx.energy.gasPricePerM3 * factor,
+        },
+      },
+    }),
+  },
+  {
+    key: "labor",
+    label: "Coût horaire main-d'œuvre",
+    apply: (s, factor) => {
+      const scaled = scaleParam("laborHourly")(s, factor);
+      return {
+        ...scaled,
+        ctx: { ...scaled.ctx, employees: scaled.ctx.employees.map((e) => ({ ...e, grossHourly: e.grossHourly * factor })) },
+      };
+    },
+  },
+  {
+    key: "overheads",
+    label: "Frais fixes",
+    apply: (s, factor) =>
+      s.ctx.overheads.mode === "allocated"
+        ? {
+            ...s,
+            ctx: {
+              ...s.ctx,
+              overheads: { ...s.ctx.overheads, costs: s.ctx.overheads.costs.map((c) => ({ ...c, monthly: c.monthly * factor })) },
+            },
+          }
+        : scaleParam("overheadPct")(s, factor),
+  },
+  {
+    key: "cookieWeight",
+    label: "Poids d'un cookie",
+    apply: (s, factor) => ({ ...s, recipe: { ...s.recipe, cookieWeight: s.recipe.cookieWeight * factor } }),
+  },
+  { key: "doughLoss", label: "Perte de pâte", apply: scaleParam("doughLossPct") },
+  { key: "bakeLoss", label: "Perte à la cuisson", apply: scaleParam("bakeLossPct") },
+];
+
+// Fait varier chaque entrée de ±pct % et mesure l'écart sur le coût unitaire et le prix TTC,
+// trié par impact décroissant sur la métrique choisie
+export const sensitivity = (
+  recipe: Recipe,
+  ctx: CostContext,
+  cookiesWanted: number,
+  pct: number,
+  sortBy: SensitivityMetric
+): SensitivityRow[] => {
+  const base = computeCost(recipe, ctx, cookiesWanted);
+  const measure = (s: Scenario) => {
+    const r = computeCost(s.recipe, s.ctx, cookiesWanted);
+    return { unitCost: r.unitCost - base.unitCost, priceTTC: r.priceTTC - base.priceTTC };
+  };
+  const impact = (row: SensitivityRow) => Math.max(Math.abs(row.low[sortBy]), Math.abs(row.high[sortBy]));
+  return sensitivityInputs(recipe, ctx)
+    .map((input) => ({
+      key: input.key,
+      label: input.label,
+      low: measure(input.apply({ recipe, ctx }, 1 - pct / 100)),
+      high: measure(input.apply({ recipe, ctx }, 1 + pct / 100)),
+    }))
+    .sort((a, b) => impact(b) - impact(a));
+};
@@ -0,0 +1,87 @@
+import { newId, today } from "@/lib/format";
+import { packUnitPrice, sanitizePack, type Pack } from "@/lib/packs";
+import { toPriceBasis, type Convertible, type Unit } from "@/lib/units";
+
+/* ================= Catalogue fournisseurs ================= */
+export type Supplier = {
+  id: string;
+  name: string;
+  preferred?: boolean;   // fournisseur habituel (choix « préféré »)
+};
+
+// Offre d'un fournisseur pour un ingrédient : conditionnement + prix à une date donnée
+export type SupplierOffer = {
+  id: string;
+  supplierId: string;
+  pack: Pack;
+  minPacks?: number;     // commande minimale (en conditionnements)
+  date: string;          // date du tarif (AAAA-MM-JJ)
+};
+
+// « cheapest », « preferred » ou l'id d'un fournisseur précis
+export type SupplierChoice = "cheapest" | "preferred" | string;
+
+type Sourced = Convertible & { offers?: SupplierOffer[]; supplierChoice?: SupplierChoice };
+
+export type SelectedOffer = { offer: SupplierOffer; supplier: Supplier; unitPrice: number };
+
+/* ============ Choix de l'offre ============ */
+// Offres dont le fournisseur existe encore, avec leur prix unitaire (€/g ou €/pc)
+export const pricedOffers = (ing: Sourced, suppliers: Supplier[]): SelectedOffer[] =>
+  (ing.offers ?? []).flatMap((offer) => {
+    const supplier = suppliers.find((s) => s.id === offer.supplierId);
+    return supplier ? [{ offer, supplier, unitPrice: packUnitPrice(offer.pack, ing) }] : [];
+  });
+
+// Dernier tarif de chaque fournisseur : un nouveau devis remplace les précédents
+export const latestOffers = <T extends { offer: SupplierOffer }>(offers: T[]): T[] => {
+  const latest = new Map<string, T>();
+  for (const o of offers) {
+    const prev = latest.get(o.offer.supplierId);
+    if (!prev || o.offer.date >= prev.offer.date) latest.set(o.offer.supplierId, o);
+  }
+  return offers.filter((o) => latest.get(o.offer.supplierId) === o);
+};
+
+const cheapest = (offers: SelectedOffer[]) =>
+  offers.reduce<SelectedOffer | null>((best, o) => (!best || o.unitPrice < best.unitPrice ? o : best), null);
+
+// Offre retenue selon le choix de l'ingrédient (le moins cher par défaut) ; null = prix saisi
+export const selectOffer = (ing: Sourced, suppliers: Supplier[]): SelectedOffer | null => {
+  const offers = latestOffers(pricedOffers(ing, suppliers)).filter((o) => o.unitPrice > 0);
+  if (offers.length === 0) return null;
+  const choice = ing.supplierChoice ?? "cheapest";
+  if (choice === "cheapest") return cheapest(offers);
+  if (choice === "preferred") return cheapest(offers.filter((o) => o.supplier.preferred)) ?? cheapest(offers);
+  return offers.find((o) => o.supplier.id === choice) ?? cheapest(offers);
+};
+
+// Commande minimale de l'offre, dans la base de prix de l'ingrédient (g, ou pc si compté)
+export const minOrderQty = (offer: SupplierOffer, ing: Convertible) =>
+  offer.minPacks ? offer.minPacks * toPriceBasis(offer.pack.size, offer.pack.unit, ing) : 0;
+
+/* ============ Relecture du stockage ============ */
+export const sanitizeSupplier = (raw: unknown): Supplier | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  return {
+    id: typeof r.id === "string" && r.id ? r.id : newId(),
+    name: typeof r.name === "string" ? r.name : "",
+    ...(r.preferred === true && { preferred: true }),
+  };
+};
+
+export const sanitizeOffer = (raw: unknown, unit: Unit): SupplierOffer | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const pack = sanitizePack(r.pack, unit);
+  if (!pack || typeof r.supplierId !== "string") return null;
+  const minPacks = Number(r.minPacks);
+  return {
+    id: typeof r.id === "string" && r.id ? r.id : newId(),
+    supplierId: r.supplierId,
+    pack,
+    ...(Number.isFinite(minPacks) && minPacks > 0 && { minPacks }),
+    date: typeof r.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(r.date) ? r.date : today(),
+  };
+};
@@ -0,0 +1,117 @@
+import { computeCost, type CostContext } from "@/lib/costing";
+import { newId, nz } from "@/lib/format";
+import { priceAtMargin } from "@/lib/pricing";
+import type { Recipe } from "@/lib/recipes";
+
+/* ================= Tarifs dégressifs ================= */
+// « discount » : remise sur le prix unitaire standard ; « margin » : taux de marque propre à chaque palier
+export type TierMode = "discount" | "margin";
+
+export type PriceTier = {
+  id: string;
+  minQty: number;        // première quantité du palier (le palier court jusqu'au suivant)
+  discountPct: number;   // remise sur le prix HT standard (%)
+  marginPct: number;     // taux de marque visé (%)
+};
+
+export type TierGrid = {
+  mode: TierMode;
+  tiers: PriceTier[];
+};
+
+export const defaultTierGrid: TierGrid = {
+  mode: "discount",
+  tiers: [
+    { id: "t1", minQty: 1, discountPct: 0, marginPct: 55 },
+    { id: "t12", minQty: 12, discountPct: 5, marginPct: 50 },
+    { id: "t50", minQty: 50, discountPct: 10, marginPct: 45 },
+  ],
+};
+
+export const sortTiers = (tiers: PriceTier[]) => [...tiers].sort((a, b) => a.minQty - b.minQty);
+
+// Palier suivant : 10 cookies de plus que le dernier, même remise / marge
+export const nextTier = (tiers: PriceTier[]): PriceTier => {
+  const sorted = sortTiers(tiers);
+  const last = sorted[sorted.length - 1];
+  return {
+    id: newId(),
+    minQty: last ? last.minQty + 10 : 1,
+    discountPct: last?.discountPct ?? 0,
+    marginPct: last?.marginPct ?? 50,
+  };
+};
+
+export type TierPrice = {
+  tier: PriceTier;
+  maxQty: number | null;    // null = sans plafond
+  unitCost: number;         // coût unitaire pour une commande de minQty cookies
+  priceHT: number;
+  priceTTC: number;
+  totalTTC: number;
+  marginPerCookie: number;  // HT
+  marginTotal: number;      // HT
+  marginPct: number;        // taux de marque obtenu
+  error: string | null;     // saisie qui empêche de chiffrer le palier
+};
+
+// Prix de chaque palier, chiffré au bas du palier : la main-d'œuvre par session
+// et les frais fixes s'étalent sur plus de cookies quand la quantité augmente.
+export const tierPrices = (
+  grid: TierGrid,
+  recipe: Recipe,
+  ctx: CostContext,
+  basePriceHT: number,
+  vatPct: number
+): TierPrice[] => {
+  const tiers = sortTiers(grid.tiers);
+  return tiers.map((tier, i) => {
+    const qty = Math.max(1, Math.round(tier.minQty));
+    const next = tiers[i + 1];
+    const { unitCost } = computeCost(recipe, ctx, qty);
+    const { priceHT, error } = grid.mode === "margin"
+      ? priceAtMargin(unitCost, tier.marginPct)
+      : { priceHT: nz(basePriceHT * (1 - nz(tier.discountPct) / 100)), error: null };
+    const priceTTC = nz(priceHT * (1 + nz(vatPct) / 100));
+    const marginPerCookie = nz(priceHT - unitCost);
+    return {
+      tier,
+      maxQty: next ? Math.max(qty, Math.round(next.minQty) - 1) : null,
+      unitCost,
+      priceHT,
+      priceTTC,
+      totalTTC: priceTTC * qty,
+      marginPerCookie,
+      marginTotal: marginPerCookie * qty,
+      marginPct: priceHT > 0 ? (marginPerCookie / priceHT) * 100 : 0,
+      error,
+    };
+  });
+};
+
+/* ============ Relecture du stockage ============ */
+const sanitizeTier = (raw: unknown): PriceTier | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const minQty = Math.round(Number(r.minQty));
+  if (!Number.isFinite(minQty) || minQty < 1) return null;
+  const discount = Number(r.discountPct);
+  const margin = Number(r.marginPct);
+  return {
+    id: typeof r.id === "string" && r.id ? r.id : newId(),
+    minQty,
+    discountPct: Number.isFinite(discount) && discount >= 0 ? Math.min(discount, 100) : 0,
+    marginPct: Number.isFinite(margin) && margin >= 0 ? margin : 50,
+  };
+};
+
+export const sanitizeTierGrid = (raw: unknown): TierGrid => {
+  if (!raw || typeof raw !== "object") return defaultTierGrid;
+  const r = raw as Record<string, unknown>;
+  return {
+    mode: r.mode === "margin" ? "margin" : "discount",
+    tiers: Array.isArray(r.tiers)
+      ? sortTiers(r.tiers.map(sanitizeTier).filter((t): t is PriceTier => t !== null))
+      : defaultTierGrid.tiers,
+  };
+};
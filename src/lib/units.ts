@@ -0,0 +1,94 @@
+import { frNum, nz } from "@/lib/format";
+
+/* ================= Unités ================= */
+export type Unit = "g" | "kg" | "oz" | "ml" | "cl" | "L" | "tsp" | "tbsp" | "cup" | "pc";
+export type UnitKind = "mass" | "volume" | "count";
+
+// factor : vers g (masse), ml (volume) ou pièces (comptage)
+export const UNIT_DEFS: Record<Unit, { label: string; kind: UnitKind; factor: number }> = {
+  g:    { label: "g",          kind: "mass",   factor: 1 },
+  kg:   { label: "kg",         kind: "mass",   factor: 1000 },
+  oz:   { label: "oz",         kind: "mass",   factor: 28.3495 },
+  ml:   { label: "ml",         kind: "volume", factor: 1 },
+  cl:   { label: "cl",         kind: "volume", factor: 10 },
+  L:    { label: "L",          kind: "volume", factor: 1000 },
+  tsp:  { label: "c. à café",  kind: "volume", factor: 5 },
+  tbsp: { label: "c. à soupe", kind: "volume", factor: 15 },
+  cup:  { label: "cup",        kind: "volume", factor: 240 },   // cup US
+  pc:   { label: "pc",         kind: "count",  factor: 1 },
+};
+
+export const UNITS = Object.keys(UNIT_DEFS) as Unit[];
+export const isUnit = (u: unknown): u is Unit => UNITS.includes(u as Unit);
+export const unitKind = (u: Unit) => UNIT_DEFS[u].kind;
+export const unitLabel = (u: Unit) => UNIT_DEFS[u].label;
+
+// Poids d'une pièce par défaut quand on passe en pc
+export const DEFAULT_PIECE_GRAMS = 50;
+
+/* ============ Conversions propres à un ingrédient ============ */
+// gramsPerUnit = poids d'une pièce (pc) ; density = g/ml (unités de volume, 1 par défaut)
+export type Convertible = { unit: Unit; gramsPerUnit: number; density?: number };
+
+export const densityOf = (ing: Convertible) => (nz(ing.density) > 0 ? (ing.density as number) : 1);
+
+// Grammes contenus dans 1 `unit` de cet ingrédient
+export const gramsIn = (unit: Unit, ing: Convertible) => {
+  const { kind, factor } = UNIT_DEFS[unit];
+  if (kind === "mass") return factor;
+  if (kind === "volume") return factor * densityOf(ing);
+  return nz(ing.gramsPerUnit);
+};
+
+// Grammes dans 1 unité de saisie de l'ingrédient
+export const unitGrams = (ing: Convertible) => gramsIn(ing.unit, ing);
+
+/* Base de prix : unitPrice est en €/g pour les masses et volumes (via la densité),
+   en €/pièce pour les ingrédients comptés à la pièce. */
+export const toPriceBasis = (qty: number, unit: Unit, ing: Convertible) => {
+  if (unitKind(ing.unit) === "count") {
+    if (unitKind(unit) === "count") return nz(qty);
+    return nz(ing.gramsPerUnit) > 0 ? (nz(qty) * gramsIn(unit, ing)) / ing.gramsPerUnit : 0;
+  }
+  return nz(qty) * gramsIn(unit, ing);
+};
+
+/* ============ Affichage lisible ============ */
+// Décimales selon l'ordre de grandeur (4,25 g ; 87,5 g ; 850 g)
+const readable = (n: number) => frNum(n, n < 10 ? 2 : n < 100 ? 1 : 0);
+
+export const formatMass = (grams: number) =>
+  grams >= 1000 ? `${frNum(grams / 1000, 2)} kg` : `${readable(grams)} g`;
+
+export const formatVolume = (ml: number) =>
+  ml >= 1000 ? `${frNum(ml / 1000, 2)} L` : `${readable(ml)} ml`;
+
+// ex: « 1,25 kg », « 75 ml », « 2,73 pc (≈ 150 g) », « 1,5 c. à soupe (≈ 31 g) »
+export const formatQty = (qty: number, ing: Convertible) => {
+  const grams = nz(qty) * unitGrams(ing);
+  if (ing.unit === "g" || ing.unit === "kg") return formatMass(grams);
+  if (ing.unit === "ml" || ing.unit === "cl" || ing.unit === "L") {
+    const volume = formatVolume(nz(qty) * UNIT_DEFS[ing.unit].factor);
+    return densityOf(ing) !== 1 ? `${volume} (≈ ${formatMass(grams)})` : volume;
+  }
+  return `${frNum(nz(qty), 2)} ${unitLabel(ing.unit)} (≈ ${formatMass(grams)})`;
+};
+
+/* ============ Prix affiché ============ */
+// €/kg (masse), €/L (volume, via la densité) ou €/pièce (compté) — unitPrice reste en €/g ou €/pc
+export const priceDisplayUnit = (ing: Convertible) => {
+  const kind = unitKind(ing.unit);
+  return kind === "count" ? "€/pièce" : kind === "volume" ? "€/L" : "€/kg";
+};
+
+export const toDisplayPrice = (unitPrice: number, ing: Convertible) => {
+  const kind = unitKind(ing.unit);
+  if (kind === "count") return nz(unitPrice);
+  return nz(unitPrice) * 1000 * (kind === "volume" ? densityOf(ing) : 1);
+};
+
+export const fromDisplayPrice = (value: number, ing: Convertible) => {
+  const kind = unitKind(ing.unit);
+  if (kind === "count") return nz(value);
+  return nz(value) / 1000 / (kind === "volume" ? densityOf(ing) : 1);
+};
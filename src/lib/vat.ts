@@ -0,0 +1,57 @@
+/* ================= TVA ================= */
+// Taux selon la nature du produit et le mode de consommation du canal
+export type VatCategory = "food" | "alcohol";
+export type Consumption = "takeaway" | "onSite";
+// « franchise » : franchise en base (micro-entreprise), aucune TVA facturée
+export type VatRegime = "normal" | "franchise";
+
+export const VAT_CATEGORY_LABELS: Record<VatCategory, string> = {
+  food: "Pâtisserie",
+  alcohol: "Contient de l'alcool",
+};
+
+export const CONSUMPTION_LABELS: Record<Consumption, string> = {
+  takeaway: "À emporter",
+  onSite: "Sur place",
+};
+
+export const VAT_EXEMPT_MENTION = "TVA non applicable, art. 293 B du CGI";
+
+export type VatSettings = {
+  regime: VatRegime;
+  rates: Record<VatCategory, Record<Consumption, number>>;  // %
+};
+
+export const defaultVat: VatSettings = {
+  regime: "normal",
+  rates: {
+    food: { takeaway: 5.5, onSite: 10 },
+    alcohol: { takeaway: 20, onSite: 20 },
+  },
+};
+
+export const vatRate = (vat: VatSettings, category: VatCategory, consumption: Consumption) =>
+  vat.regime === "franchise" ? 0 : vat.rates[category][consumption];
+
+/* ============ Relecture du stockage ============ */
+// `legacyVatPct` : ancien taux unique (paramètre vatPct), repris pour la vente à emporter
+export const sanitizeVat = (raw: unknown, legacyVatPct?: unknown): VatSettings => {
+  const r = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const stored = r.rates && typeof r.rates === "object" ? (r.rates as Record<string, Record<string, unknown>>) : {};
+  const legacy = Number(legacyVatPct);
+  const rate = (category: VatCategory, consumption: Consumption) => {
+    const v = Number(stored[category]?.[consumption]);
+    if (stored[category]?.[consumption] !== undefined && Number.isFinite(v) && v >= 0) return v;
+    if (raw === undefined && category === "food" && consumption === "takeaway" && Number.isFinite(legacy) && legacy >= 0) {
+      return legacy;
+    }
+    return defaultVat.rates[category][consumption];
+  };
+  return {
+    regime: r.regime === "franchise" ? "franchise" : "normal",
+    rates: {
+      food: { takeaway: rate("food", "takeaway"), onSite: rate("food", "onSite") },
+      alcohol: { takeaway: rate("alcohol", "takeaway"), onSite: rate("alcohol", "onSite") },
+    },
+  };
+};